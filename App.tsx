@@ -3,19 +3,37 @@ import { Canvas, useThree } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera } from '@react-three/drei';
 import { ParticleSystem } from './components/ParticleSystem';
 import { UI } from './components/UI';
+import { CalibrationWizard } from './components/CalibrationWizard';
+import { AirDrawingOverlay } from './components/AirDrawingOverlay';
+import { TrailPass } from './components/TrailPass';
+import { AdaptiveQuality } from './components/AdaptiveQuality';
 import { HandTrackerService } from './services/handTracking';
+import { HandReplayService, parseHandRecording } from './services/handReplay';
+import { MouseHandSimulator } from './services/mouseSimulator';
 import { AudioService } from './services/audio';
 import { VoiceService } from './services/voice';
-import { ParticleShape, HandData, VoiceCommandType } from './types';
-import { CAMERA_CONFIG, COLORS, COLOR_PALETTES, PARTICLE_COUNTS } from './constants';
+import { GestureBindingEngine, loadBindings, saveBindings } from './services/gestureBindings';
+import { loadForceFields, saveForceFields } from './services/forceFields';
+import { loadCalibration, saveCalibration } from './services/calibration';
+import { AirDrawingRecorder, loadDrawings, saveDrawings } from './services/airDrawing';
+import { getShape, registerShape } from './services/shapeRegistry';
+import { importModelShape, isModelFile } from './services/modelImport';
+import { importImageShape, isImageFile } from './services/imageImport';
+import { listCameras, loadCameraSettings, saveCameraSettings } from './services/cameraDevices';
+import { ParticleShape, HandData, HandPose, AppCommandType, SmoothingConfig, BindingConfig, HandSourceType, HandTrackingProvider, HandRecording, HandCalibration, HandFrame, Drawing, CameraSettings, CameraStatus, CameraDevice, ImageSampling, TextSettings, TransitionSettings, ForceField, ParticleGroup, ColorSettings, TrailSettings, QualitySettings, QualityLevel } from './types';
+import { CAMERA_CONFIG, COLORS, DEFAULT_SMOOTHING, DEFAULT_CALIBRATION, DEFAULT_IMAGE_SAMPLING, DEFAULT_TRANSITION, DEFAULT_GROUP, DEFAULT_COLORING, DEFAULT_TRAILS, DEFAULT_QUALITY } from './constants';
 import * as THREE from 'three';
 
 const INITIAL_HAND_DATA: HandData = {
   x: 0,
   y: 0,
+  z: 0,
   isDetected: false,
   isClenched: false,
-  handSpread: 0.5
+  handSpread: 0.5,
+  pose: HandPose.NONE,
+  poseConfidence: 0,
+  hands: []
 };
 
 // Component to handle Scene capture
@@ -61,21 +79,44 @@ const Shockwave = ({ color }: { color: string }) => {
 };
 
 
+// Steps a single letter A-Z; any longer text restarts at A
+const nextChar = (text: string, dir: number) => {
+  const index = /^[A-Z]$/.test(text) ? text.charCodeAt(0) - 65 : -dir;
+  return String.fromCharCode(65 + (index + dir + 26) % 26);
+};
+
+const nextNum = (num: number, dir: number) => (num + dir + 10) % 10;
+
 export default function App() {
   // State
   const [loading, setLoading] = useState(true);
-  const [shape, setShape] = useState<ParticleShape>(ParticleShape.SPHERE);
-  const [color, setColor] = useState<string>(COLORS.primary);
+  const [groups, setGroups] = useState<ParticleGroup[]>([DEFAULT_GROUP]);
+  const [activeGroupId, setActiveGroupId] = useState(DEFAULT_GROUP.id);
   const [handDataState, setHandDataState] = useState<HandData>(INITIAL_HAND_DATA);
   const [audioEnabled, setAudioEnabled] = useState(true); // Default to TRUE
   const [audioError, setAudioError] = useState(false);
-  const [videoEnabled, setVideoEnabled] = useState(true);
+  const [handSource, setHandSource] = useState<HandSourceType | null>('CAMERA');
+  const [handProviderId, setHandProviderId] = useState(0); // Bumped whenever handProviderRef changes
   const [voiceStatus, setVoiceStatus] = useState({ isListening: false, lastCommand: '', confidence: 0 });
-  const [particleCount, setParticleCount] = useState<number>(PARTICLE_COUNTS.CORE);
-  
-  // Text/Number State
-  const [charIndex, setCharIndex] = useState(0); // 0 = A
-  const [numIndex, setNumIndex] = useState(1);   // 0 = 0 (Start at 1 as per prompt suggestion <1>)
+  const [isRecording, setIsRecording] = useState(false);
+  const [smoothing, setSmoothing] = useState<SmoothingConfig>(DEFAULT_SMOOTHING);
+  const [bindings, setBindings] = useState<BindingConfig>(loadBindings);
+  const [forceFields, setForceFields] = useState<ForceField[]>(loadForceFields);
+  const [calibration, setCalibration] = useState<HandCalibration>(loadCalibration);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [drawings, setDrawings] = useState<Drawing[]>(loadDrawings);
+  const [isAirDrawing, setIsAirDrawing] = useState(false);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameraStatus, setCameraStatus] = useState<CameraStatus>('OFF');
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [sourceColors, setSourceColors] = useState(true);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [imageSampling, setImageSampling] = useState<ImageSampling>(DEFAULT_IMAGE_SAMPLING);
+  const [transition, setTransition] = useState<TransitionSettings>(DEFAULT_TRANSITION);
+  const [trails, setTrails] = useState<TrailSettings>(DEFAULT_TRAILS);
+  const [quality, setQuality] = useState<QualitySettings>(DEFAULT_QUALITY);
+  // Set by auto-quality; null renders at full quality
+  const [qualityLevel, setQualityLevel] = useState<QualityLevel | null>(null);
 
   // Snapshot State
   const [captureTrigger, setCaptureTrigger] = useState(0);
@@ -84,28 +125,99 @@ export default function App() {
   // Refs for High-Performance Loops (avoiding state churn in animation loops)
   const handDataRef = useRef<HandData>(INITIAL_HAND_DATA);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const handTrackerRef = useRef<HandTrackerService | null>(null);
+  const handProviderRef = useRef<HandTrackingProvider | null>(null);
   const audioServiceRef = useRef<AudioService | null>(null);
   const voiceServiceRef = useRef<VoiceService | null>(null);
+  const bindingEngineRef = useRef<GestureBindingEngine | null>(null);
+  // Set while the air-drawing overlay is open
+  const airDrawingRef = useRef<AirDrawingRecorder | null>(null);
+  // Latest selection for command handlers created once on mount
+  const activeGroupIdRef = useRef(activeGroupId);
+  activeGroupIdRef.current = activeGroupId;
+
+  // --- Particle Groups ---
+  // Formation, colour, density and text controls (and voice/gesture commands) edit the selected group
+
+  const activeGroup = groups.find(g => g.id === activeGroupId) ?? groups[0];
+  const { shape, color, count: particleCount, text: textSettings, numIndex } = activeGroup;
+
+  const updateGroup = (update: (group: ParticleGroup) => Partial<ParticleGroup>) => {
+      setGroups(prev => prev.map(g => g.id === activeGroupIdRef.current ? { ...g, ...update(g) } : g));
+  };
+
+  const setShape = (shape: string) => updateGroup(() => ({ shape }));
+  const setColor = (color: string) => updateGroup(() => ({ color }));
+  const setColoring = (coloring: ColorSettings) => updateGroup(() => ({ coloring }));
+  const setParticleCount = (count: number) => updateGroup(() => ({ count }));
+  const setTextSettings = (text: TextSettings) => updateGroup(() => ({ text }));
+
+  const addGroup = (group: ParticleGroup) => {
+      setGroups(prev => [...prev, group]);
+      setActiveGroupId(group.id);
+  };
+
+  // The last group stays
+  const removeGroup = (id: string) => {
+      if (groups.length <= 1) return;
+      const remaining = groups.filter(g => g.id !== id);
+      setGroups(remaining);
+      if (id === activeGroupId) setActiveGroupId(remaining[0].id);
+  };
+
+  const editGroup = (id: string, patch: Partial<ParticleGroup>) => {
+      setGroups(prev => prev.map(g => g.id === id ? { ...g, ...patch } : g));
+  };
+
+  // Shared sink for live tracking and replays
+  const handleHandData = (data: HandData) => {
+    // Update Ref for Physics (Instant)
+    handDataRef.current = data;
+    // Update State for UI (React Render Cycle)
+    setHandDataState(data);
+    if (airDrawingRef.current) {
+        // Pinch/clench draws instead of firing gesture-bound commands
+        airDrawingRef.current.update(data);
+    } else {
+        bindingEngineRef.current?.update(data, performance.now());
+    }
+    
+    if (loading) setLoading(false);
+  };
+
+  // Shared command handler for voice and gesture bindings
+  const executeCommand = (type: AppCommandType, value: string) => {
+      if (type === 'SHAPE' && getShape(value)) setShape(value);
+      if (type === 'COLOR') setColor(value);
+      if (type === 'RESET') {
+          updateGroup(() => ({ shape: ParticleShape.SPHERE, color: COLORS.primary, coloring: DEFAULT_COLORING }));
+      }
+      if (type === 'SNAPSHOT') {
+          triggerSnapshot();
+      }
+      if (type === 'SET_CHAR') {
+          setText(String.fromCharCode(65 + parseInt(value))); // A = 65
+      }
+      if (type === 'SET_TEXT' && value.trim()) {
+          setText(value);
+      }
+      if (type === 'SET_NUM') {
+          updateGroup(() => ({ shape: ParticleShape.NUMBER, numIndex: parseInt(value) }));
+      }
+      if (type === 'NEXT_CHAR' || type === 'PREV_CHAR') {
+          const dir = type === 'NEXT_CHAR' ? 1 : -1;
+          updateGroup(g => g.shape === ParticleShape.NUMBER
+              ? { numIndex: nextNum(g.numIndex, dir) }
+              : { shape: ParticleShape.TEXT, text: { ...g.text, text: nextChar(g.text.text, dir) } });
+      }
+  };
 
   // Initialize Services
   useEffect(() => {
-    // 1. Hand Tracking
-    if (videoRef.current) {
-      handTrackerRef.current = new HandTrackerService(videoRef.current, (data) => {
-        // Update Ref for Physics (Instant)
-        handDataRef.current = data;
-        // Update State for UI (React Render Cycle)
-        setHandDataState(data);
-        
-        if (loading) setLoading(false);
-      });
+    // 0. Gesture Bindings (before tracking so the first frame is seen)
+    bindingEngineRef.current = new GestureBindingEngine(executeCommand);
 
-      handTrackerRef.current.initialize().catch(err => {
-          console.error("Failed to init hand tracking", err);
-          setLoading(false);
-      });
-    }
+    // 1. Hand Tracking (webcam by default)
+    switchHandSource('CAMERA');
 
     // 2. Audio Service (Initialize Immediately)
     audioServiceRef.current = new AudioService();
@@ -124,25 +236,9 @@ export default function App() {
 
     // 3. Voice Service
     voiceServiceRef.current = new VoiceService(
-        (type: VoiceCommandType, value: string) => {
+        (type, value) => {
             console.log(`Executing Voice Command: ${type} -> ${value}`);
-            if (type === 'SHAPE') setShape(value as ParticleShape);
-            if (type === 'COLOR') setColor(value);
-            if (type === 'RESET') {
-                setShape(ParticleShape.SPHERE);
-                setColor(COLORS.primary);
-            }
-            if (type === 'SNAPSHOT') {
-                triggerSnapshot();
-            }
-            if (type === 'SET_CHAR') {
-                setShape(ParticleShape.TEXT);
-                setCharIndex(parseInt(value));
-            }
-            if (type === 'SET_NUM') {
-                setShape(ParticleShape.NUMBER);
-                setNumIndex(parseInt(value));
-            }
+            executeCommand(type, value);
         },
         (isListening, lastCommand) => {
             setVoiceStatus(prev => ({ ...prev, isListening, lastCommand }));
@@ -153,12 +249,61 @@ export default function App() {
 
     // Cleanup
     return () => {
-        handTrackerRef.current?.stop();
+        handProviderRef.current?.stop();
         audioServiceRef.current?.stop();
         voiceServiceRef.current?.stop();
     };
   }, []); // Run once on mount
 
+  // Back to full quality when auto-quality is turned off
+  useEffect(() => {
+    if (!quality.auto) setQualityLevel(null);
+  }, [quality.auto]);
+
+  // Persist bindings and hand the discrete ones to the engine
+  useEffect(() => {
+    saveBindings(bindings);
+    bindingEngineRef.current?.setBindings(bindings.triggers);
+  }, [bindings]);
+
+  // Push filter settings into whichever hand source is running
+  useEffect(() => {
+    handProviderRef.current?.setSmoothing(smoothing);
+  }, [smoothing]);
+
+  useEffect(() => {
+    saveDrawings(drawings);
+  }, [drawings]);
+
+  useEffect(() => {
+    saveForceFields(forceFields);
+  }, [forceFields]);
+
+  // Persist camera choice and reopen the running camera with it
+  useEffect(() => {
+    saveCameraSettings(cameraSettings);
+    const provider = handProviderRef.current;
+    if (provider instanceof HandTrackerService) provider.setCameraSettings(cameraSettings);
+  }, [cameraSettings]);
+
+  // Keep the camera list current (labels only appear once a stream was granted)
+  useEffect(() => {
+    const refresh = () => listCameras().then(setCameras).catch(e => console.warn("Failed to list cameras", e));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  useEffect(() => {
+    if (cameraStatus === 'LIVE') listCameras().then(setCameras).catch(e => console.warn("Failed to list cameras", e));
+  }, [cameraStatus]);
+
+  // Persist and apply per-user hand calibration
+  useEffect(() => {
+    saveCalibration(calibration);
+    handProviderRef.current?.setCalibration(calibration);
+  }, [calibration]);
+
   const toggleAudio = async () => {
       if (!audioServiceRef.current) return;
       
@@ -179,30 +324,184 @@ export default function App() {
       }
   };
 
-  const toggleVideo = async () => {
-      if (!handTrackerRef.current) return;
+  const videoEnabled = handSource === 'CAMERA';
+  const isReplaying = handSource === 'REPLAY';
+  const mouseEnabled = handSource === 'MOUSE';
 
-      if (videoEnabled) {
-          // Disable
-          handTrackerRef.current.stop();
-          setVideoEnabled(false);
-          // Reset hand data so cursor disappears/resets
-          handDataRef.current = INITIAL_HAND_DATA;
-          setHandDataState(INITIAL_HAND_DATA);
-      } else {
-          // Enable
-          setLoading(true);
-          try {
-              await handTrackerRef.current.initialize();
-              setVideoEnabled(true);
-          } catch (e) {
-              console.error("Failed to restart video", e);
-              setVideoEnabled(false);
-              setLoading(false);
+  const createHandProvider = (source: HandSourceType, recording?: HandRecording): HandTrackingProvider => {
+      switch (source) {
+          case 'CAMERA': {
+              const tracker = new HandTrackerService(videoRef.current!, handleHandData, setCameraStatus);
+              tracker.setCameraSettings(cameraSettings);
+              return tracker;
           }
+          case 'REPLAY': return new HandReplayService(recording!, handleHandData);
+          case 'MOUSE': return new MouseHandSimulator(handleHandData);
       }
   };
 
+  // Stop whatever currently feeds hand data and start the requested source (null = none)
+  const switchHandSource = async (source: HandSourceType | null, recording?: HandRecording) => {
+      const current = handProviderRef.current;
+      if (current instanceof HandTrackerService && current.isRecording) {
+          // Don't lose an in-progress recording
+          downloadRecording(current.stopRecording());
+          setIsRecording(false);
+      }
+      current?.stop();
+      handProviderRef.current = null;
+      setHandProviderId(id => id + 1);
+      setCameraStatus('OFF');
+
+      // Reset hand data so cursor disappears/resets
+      handDataRef.current = INITIAL_HAND_DATA;
+      setHandDataState(INITIAL_HAND_DATA);
+      setHandSource(source);
+      if (!source || !videoRef.current) return;
+
+      const provider = createHandProvider(source, recording);
+      provider.setSmoothing(smoothing);
+      provider.setCalibration(calibration);
+      handProviderRef.current = provider;
+
+      if (source === 'CAMERA') setLoading(true);
+      try {
+          await provider.initialize();
+      } catch (e) {
+          console.error(`Failed to start ${source} hand source`, e);
+          if (handProviderRef.current === provider) {
+              handProviderRef.current = null;
+              setHandProviderId(id => id + 1);
+              setHandSource(null);
+          }
+          setLoading(false);
+      }
+  };
+
+  const toggleVideo = () => switchHandSource(videoEnabled ? null : 'CAMERA');
+
+  const toggleMouse = () => switchHandSource(mouseEnabled ? null : 'MOUSE');
+
+  const downloadRecording = (recording: HandRecording) => {
+      const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.setAttribute('download', 'jarvis-hand-session-' + Date.now() + '.json');
+      link.setAttribute('href', url);
+      link.click();
+      // Revoking right away can cancel the download in some browsers
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const toggleRecording = () => {
+      // Only the live camera produces raw landmarks worth recording
+      const tracker = handProviderRef.current;
+      if (!(tracker instanceof HandTrackerService)) return;
+
+      if (!tracker.isRecording) {
+          tracker.startRecording();
+          setIsRecording(true);
+          return;
+      }
+
+      downloadRecording(tracker.stopRecording());
+      setIsRecording(false);
+  };
+
+  const loadReplay = async (file: File) => {
+      try {
+          const recording = parseHandRecording(await file.text());
+          // The replay takes over from the camera
+          await switchHandSource('REPLAY', recording);
+      } catch (e) {
+          console.error("Failed to load hand recording", e);
+      }
+  };
+
+  const stopReplay = () => switchHandSource(null);
+
+  // Raw landmark feed for the calibration wizard
+  const subscribeHandFrames = (listener: (frame: HandFrame) => void) => {
+      const provider = handProviderRef.current;
+      if (!provider?.setFrameListener) return null;
+      provider.setFrameListener(listener);
+      return () => provider.setFrameListener?.(null);
+  };
+
+  // --- Imported Formations ---
+
+  const importFormation = async (file: File) => {
+      const importer = isModelFile(file) ? importModelShape : isImageFile(file) ? importImageShape : null;
+      if (!importer) {
+          setImportStatus(`Unsupported file: ${file.name}`);
+          return;
+      }
+      setImportStatus(`Loading ${file.name}...`);
+      try {
+          const definition = await importer(file);
+          registerShape(definition);
+          setShape(definition.name);
+          setImportStatus(null);
+      } catch (e) {
+          console.error("Failed to import formation", e);
+          setImportStatus(e instanceof Error ? e.message : `Failed to load ${file.name}`);
+      }
+  };
+
+  // Files dropped anywhere on the page become formations
+  useEffect(() => {
+      const handleDragOver = (e: DragEvent) => {
+          if (e.dataTransfer?.types.includes('Files')) e.preventDefault();
+      };
+      const handleDrop = (e: DragEvent) => {
+          const file = e.dataTransfer?.files[0];
+          if (!file) return;
+          e.preventDefault();
+          importFormation(file);
+      };
+      window.addEventListener('dragover', handleDragOver);
+      window.addEventListener('drop', handleDrop);
+      return () => {
+          window.removeEventListener('dragover', handleDragOver);
+          window.removeEventListener('drop', handleDrop);
+      };
+  }, []);
+
+  // --- Air Drawing ---
+
+  const startAirDrawing = () => {
+      airDrawingRef.current = new AirDrawingRecorder();
+      setIsAirDrawing(true);
+  };
+
+  const closeAirDrawing = () => {
+      airDrawingRef.current = null;
+      setIsAirDrawing(false);
+  };
+
+  const saveAirDrawing = (name: string) => {
+      const drawing = airDrawingRef.current?.finish(name);
+      if (!drawing) return false;
+      setDrawings(prev => [...prev, drawing]);
+      selectDrawing(drawing.id);
+      closeAirDrawing();
+      return true;
+  };
+
+  const selectDrawing = (id: string) => {
+      updateGroup(() => ({ drawingId: id, shape: ParticleShape.DRAWING }));
+  };
+
+  // Groups showing the drawing fall back to a sphere
+  const deleteDrawing = (id: string) => {
+      setDrawings(prev => prev.filter(d => d.id !== id));
+      setGroups(prev => prev.map(g => g.drawingId !== id ? g : {
+          ...g,
+          drawingId: null,
+          shape: g.shape === ParticleShape.DRAWING ? ParticleShape.SPHERE : g.shape,
+      }));
+  };
+
   const toggleVoice = () => {
       if (!voiceServiceRef.current) return;
       voiceServiceRef.current.stop();
@@ -224,29 +523,17 @@ export default function App() {
       setCaptureTrigger(0);
   }, []);
 
-  const cycleChar = (dir: number) => {
-      setCharIndex(prev => {
-          const next = prev + dir;
-          if (next > 25) return 0;
-          if (next < 0) return 25;
-          return next;
-      });
-  };
+  const setText = (text: string) => updateGroup(g => ({ shape: ParticleShape.TEXT, text: { ...g.text, text } }));
 
-  const cycleNum = (dir: number) => {
-      setNumIndex(prev => {
-          const next = prev + dir;
-          if (next > 9) return 0;
-          if (next < 0) return 9;
-          return next;
-      });
-  };
+  const cycleChar = (dir: number) => updateGroup(g => ({ text: { ...g.text, text: nextChar(g.text.text, dir) } }));
+
+  const cycleNum = (dir: number) => updateGroup(g => ({ numIndex: nextNum(g.numIndex, dir) }));
 
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden">
       
       {/* 3D Scene */}
-      <Canvas className="absolute inset-0 z-10" gl={{ preserveDrawingBuffer: true }}>
+      <Canvas className="absolute inset-0 z-10" gl={{ preserveDrawingBuffer: true }} dpr={qualityLevel?.dpr ?? [1, 2]}>
         <PerspectiveCamera makeDefault {...CAMERA_CONFIG} />
         <OrbitControls 
             enableZoom={false} 
@@ -260,14 +547,19 @@ export default function App() {
         <pointLight position={[10, 10, 10]} intensity={1} color={color} />
         
         <ParticleSystem 
-            shape={shape} 
-            color={color} 
+            groups={groups}
+            drawings={drawings}
+            countScale={qualityLevel?.countScale ?? 1}
             handData={handDataRef} 
             audioService={audioServiceRef}
-            particleCount={particleCount}
-            charIndex={charIndex}
-            numIndex={numIndex}
+            imageSampling={imageSampling}
+            transition={transition}
+            sourceColors={sourceColors}
+            continuousBindings={bindings.continuous}
+            forceFields={forceFields}
         />
+        {quality.auto && <AdaptiveQuality targetFps={quality.targetFps} onChange={setQualityLevel} />}
+        {trails.enabled && <TrailPass settings={trails} audioService={audioServiceRef} />}
         <Shockwave color={color} />
         <SceneCapture captureTrigger={captureTrigger} onCaptureComplete={handleCaptureComplete} />
       </Canvas>
@@ -284,6 +576,8 @@ export default function App() {
         setShape={setShape}
         currentColor={color} 
         setColor={setColor}
+        coloring={activeGroup.coloring}
+        setColoring={setColoring}
         handData={handDataState}
         loading={loading}
         audioEnabled={audioEnabled}
@@ -294,15 +588,78 @@ export default function App() {
         toggleVoice={toggleVoice}
         videoEnabled={videoEnabled}
         toggleVideo={toggleVideo}
+        cameraStatus={cameraStatus}
+        cameras={cameras}
+        cameraSettings={cameraSettings}
+        setCameraSettings={setCameraSettings}
+        mouseEnabled={mouseEnabled}
+        toggleMouse={toggleMouse}
+        isRecording={isRecording}
+        toggleRecording={toggleRecording}
+        isReplaying={isReplaying}
+        loadReplay={loadReplay}
+        stopReplay={stopReplay}
+        onCalibrate={() => setShowCalibration(true)}
         onSnapshot={triggerSnapshot}
         particleCount={particleCount}
         setParticleCount={setParticleCount}
-        charIndex={charIndex}
+        smoothing={smoothing}
+        setSmoothing={setSmoothing}
+        bindings={bindings}
+        setBindings={setBindings}
+        forceFields={forceFields}
+        setForceFields={setForceFields}
+        textSettings={textSettings}
+        setTextSettings={setTextSettings}
         cycleChar={cycleChar}
         numIndex={numIndex}
         cycleNum={cycleNum}
+        drawings={drawings}
+        activeDrawingId={activeGroup.drawingId}
+        selectDrawing={selectDrawing}
+        deleteDrawing={deleteDrawing}
+        onStartAirDrawing={startAirDrawing}
+        importFormation={importFormation}
+        importStatus={importStatus}
+        sourceColors={sourceColors}
+        setSourceColors={setSourceColors}
+        imageSampling={imageSampling}
+        setImageSampling={setImageSampling}
+        transition={transition}
+        setTransition={setTransition}
+        trails={trails}
+        setTrails={setTrails}
+        quality={quality}
+        setQuality={setQuality}
+        qualityLevel={qualityLevel}
+        groups={groups}
+        activeGroupId={activeGroup.id}
+        selectGroup={setActiveGroupId}
+        addGroup={addGroup}
+        removeGroup={removeGroup}
+        editGroup={editGroup}
       />
 
+      {isAirDrawing && airDrawingRef.current && (
+        <AirDrawingOverlay
+          recorder={airDrawingRef.current}
+          onSave={saveAirDrawing}
+          onClose={closeAirDrawing}
+          currentColor={color}
+        />
+      )}
+
+      {showCalibration && (
+        <CalibrationWizard
+          subscribeHandFrames={subscribeHandFrames}
+          sourceKey={handProviderId}
+          onComplete={(c) => { setCalibration(c); setShowCalibration(false); }}
+          onReset={() => { setCalibration(DEFAULT_CALIBRATION); setShowCalibration(false); }}
+          onClose={() => setShowCalibration(false)}
+          currentColor={color}
+        />
+      )}
+
       {/* Hidden Video Element for MediaPipe */}
       <video 
         ref={videoRef} 
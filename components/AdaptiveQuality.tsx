@@ -0,0 +1,21 @@
+import React, { useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { QualityLevel } from '../types';
+import { QualityGovernor, qualityLevels } from '../services/adaptiveQuality';
+
+interface AdaptiveQualityProps {
+  targetFps: number;
+  onChange: (level: QualityLevel) => void;
+}
+
+// Measures frame times inside the Canvas and reports quality changes (mount only while auto-quality is on)
+export const AdaptiveQuality: React.FC<AdaptiveQualityProps> = ({ targetFps, onChange }) => {
+  const governor = useMemo(() => new QualityGovernor(qualityLevels(window.devicePixelRatio)), []);
+
+  useFrame((_, delta) => {
+    const level = governor.update(delta, targetFps);
+    if (level) onChange(level);
+  });
+
+  return null;
+};
@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PenTool, X } from 'lucide-react';
+import { AirDrawingRecorder } from '../services/airDrawing';
+
+interface AirDrawingOverlayProps {
+  recorder: AirDrawingRecorder;
+  onSave: (name: string) => boolean; // False when nothing usable was drawn
+  onClose: () => void;
+  currentColor: string;
+}
+
+export const AirDrawingOverlay: React.FC<AirDrawingOverlayProps> = ({ recorder, onSave, onClose, currentColor }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Redraw the live strokes every frame (the recorder is fed by the hand stream, outside React)
+  useEffect(() => {
+    let animId: number;
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        if (canvas.width !== window.innerWidth || canvas.height !== window.innerHeight) {
+          canvas.width = window.innerWidth;
+          canvas.height = window.innerHeight;
+        }
+        const aspect = canvas.width / canvas.height;
+        const toScreenX = (x: number) => (x / aspect + 1) / 2 * canvas.width;
+        const toScreenY = (y: number) => (1 - y) / 2 * canvas.height;
+
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.strokeStyle = currentColor;
+        ctx.lineWidth = 3;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.shadowColor = currentColor;
+        ctx.shadowBlur = 10;
+        for (const stroke of recorder.strokeList) {
+          ctx.beginPath();
+          stroke.forEach((p, i) => i === 0 ? ctx.moveTo(toScreenX(p.x), toScreenY(p.y)) : ctx.lineTo(toScreenX(p.x), toScreenY(p.y)));
+          ctx.stroke();
+        }
+
+        // Fingertip cursor (filled while the pen is down)
+        const cursor = recorder.cursor;
+        if (cursor) {
+          const cx = (cursor.x + 1) / 2 * canvas.width;
+          const cy = (1 - cursor.y) / 2 * canvas.height;
+          ctx.beginPath();
+          ctx.arc(cx, cy, cursor.penDown ? 6 : 10, 0, Math.PI * 2);
+          if (cursor.penDown) {
+            ctx.fillStyle = currentColor;
+            ctx.fill();
+          } else {
+            ctx.lineWidth = 1.5;
+            ctx.stroke();
+          }
+        }
+      }
+      animId = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(animId);
+  }, [recorder, currentColor]);
+
+  const save = () => {
+    if (onSave(name)) return;
+    setError("Nothing drawn yet. Pinch or make a fist and move your index finger.");
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] pointer-events-none">
+      <canvas ref={canvasRef} className="absolute inset-0" />
+
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 pointer-events-auto bg-black/80 backdrop-blur-md border rounded-lg w-[360px] shadow-[0_0_20px_rgba(0,0,0,0.5)]" style={{ borderColor: `${currentColor}60` }}>
+        <div className="bg-white/5 p-2 rounded-t flex items-center justify-between border-b" style={{ borderColor: `${currentColor}30` }}>
+          <span className="font-sci-fi text-xs flex items-center gap-2" style={{ color: currentColor }}>
+            <PenTool size={14} /> AIR DRAW
+          </span>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={14} /></button>
+        </div>
+        <div className="p-3 flex flex-col gap-2 font-mono text-[10px] text-white/70">
+          <p>Pinch or clench to put the pen down, then trace with your index finger. Move towards the camera to draw in depth.</p>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value.toUpperCase())}
+            placeholder="NAME"
+            maxLength={20}
+            className="bg-black/60 border border-white/20 rounded px-2 py-1 text-xs text-white"
+          />
+          {error && <p className="text-red-400">{error}</p>}
+          <div className="flex gap-1">
+            <button onClick={() => recorder.undo()} className="flex-1 p-1.5 rounded hover:bg-white/5 text-gray-400">UNDO</button>
+            <button onClick={() => recorder.clear()} className="flex-1 p-1.5 rounded hover:bg-white/5 text-gray-400">CLEAR</button>
+            <button onClick={save} className="flex-1 p-1.5 rounded bg-white/20 hover:bg-white/30 text-white">SAVE</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
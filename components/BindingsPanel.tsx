@@ -0,0 +1,176 @@
+import React, { useSyncExternalStore } from 'react';
+import { Hand, Plus, Trash2 } from 'lucide-react';
+import { AppCommandType, BindingConfig, ContinuousParam, GestureBinding, GestureTrigger, HandPose, HandSignal, ParticleShape } from '../types';
+import { COLOR_PALETTES, DEFAULT_BINDINGS } from '../constants';
+import { listShapes, subscribeShapes } from '../services/shapeRegistry';
+
+interface BindingsPanelProps {
+  bindings: BindingConfig;
+  setBindings: (b: BindingConfig) => void;
+  currentColor: string;
+}
+
+const POSES = Object.values(HandPose).filter(p => p !== HandPose.NONE);
+const COMMANDS: AppCommandType[] = ['SHAPE', 'COLOR', 'SNAPSHOT', 'RESET', 'NEXT_CHAR', 'PREV_CHAR', 'SET_TEXT'];
+const SIGNALS: HandSignal[] = ['X', 'Y', 'Z', 'SPREAD'];
+const PARAMS: ContinuousParam[] = ['ROTATE_X', 'ROTATE_Y', 'ROLL', 'SCALE', 'DOLLY'];
+const DEFAULT_HOLD_MS = 1000;
+
+// Triggers are edited through a single <select>, encoded as "KIND:ARG"
+const encodeTrigger = (t: GestureTrigger) =>
+  t.kind === 'CLENCH' ? `CLENCH:${t.edge}` : `${t.kind}:${t.pose}`;
+
+const decodeTrigger = (key: string, previous: GestureTrigger): GestureTrigger => {
+  const [kind, arg] = key.split(':');
+  if (kind === 'CLENCH') return { kind: 'CLENCH', edge: arg as 'START' | 'END' };
+  if (kind === 'POSE_HOLD') {
+    const durationMs = previous.kind === 'POSE_HOLD' ? previous.durationMs : DEFAULT_HOLD_MS;
+    return { kind: 'POSE_HOLD', pose: arg as HandPose, durationMs };
+  }
+  return { kind: 'POSE', pose: arg as HandPose };
+};
+
+const defaultValue = (command: AppCommandType) =>
+  command === 'SHAPE' ? ParticleShape.SPHERE : command === 'COLOR' ? COLOR_PALETTES.CYAN : command === 'SET_TEXT' ? 'HELLO' : '';
+
+const newId = () => Math.random().toString(36).slice(2, 10);
+
+const selectClass = "bg-black/60 border border-white/20 rounded px-1 py-0.5 text-[10px] font-mono text-white min-w-0";
+
+export const BindingsPanel: React.FC<BindingsPanelProps> = ({ bindings, setBindings, currentColor }) => {
+  const shapes = useSyncExternalStore(subscribeShapes, listShapes).filter(s => !s.hidden);
+
+  const updateTrigger = (id: string, patch: Partial<GestureBinding>) =>
+    setBindings({ ...bindings, triggers: bindings.triggers.map(b => b.id === id ? { ...b, ...patch } : b) });
+
+  const updateContinuous = (id: string, patch: Partial<BindingConfig['continuous'][number]>) =>
+    setBindings({ ...bindings, continuous: bindings.continuous.map(b => b.id === id ? { ...b, ...patch } : b) });
+
+  return (
+    <div className="bg-black/80 backdrop-blur-md border p-1 rounded-lg shadow-[0_0_20px_rgba(0,0,0,0.5)] shrink-0" style={{ borderColor: `${currentColor}40` }}>
+      <div className="bg-white/5 p-3 mb-1 rounded flex items-center justify-between border-b" style={{ borderColor: `${currentColor}30` }}>
+        <span className="font-sci-fi text-sm" style={{ color: currentColor }}>GESTURES</span>
+        <Hand size={16} style={{ color: currentColor }} />
+      </div>
+
+      <div className="p-2 flex flex-col gap-2">
+        {/* Discrete Triggers */}
+        <div className="text-[9px] font-mono text-gray-500 tracking-widest">TRIGGERS</div>
+        {bindings.triggers.map(binding => (
+          <div key={binding.id} className="flex flex-col gap-1 border-l pl-2" style={{ borderColor: `${currentColor}40` }}>
+            <div className="flex gap-1 items-center">
+              <select
+                className={`${selectClass} flex-1`}
+                value={encodeTrigger(binding.trigger)}
+                onChange={(e) => updateTrigger(binding.id, { trigger: decodeTrigger(e.target.value, binding.trigger) })}
+              >
+                {POSES.map(p => <option key={`POSE:${p}`} value={`POSE:${p}`}>{p.replace('_', ' ')}</option>)}
+                {POSES.map(p => <option key={`POSE_HOLD:${p}`} value={`POSE_HOLD:${p}`}>HOLD {p.replace('_', ' ')}</option>)}
+                <option value="CLENCH:START">CLENCH</option>
+                <option value="CLENCH:END">RELEASE</option>
+              </select>
+              {binding.trigger.kind === 'POSE_HOLD' && (
+                <input
+                  type="number" min="100" step="100"
+                  className={`${selectClass} w-14`}
+                  value={binding.trigger.durationMs}
+                  onChange={(e) => updateTrigger(binding.id, { trigger: { ...binding.trigger, durationMs: Number(e.target.value) } as GestureTrigger })}
+                  title="Hold duration (ms)"
+                />
+              )}
+              <button
+                onClick={() => setBindings({ ...bindings, triggers: bindings.triggers.filter(b => b.id !== binding.id) })}
+                className="text-gray-500 hover:text-red-400"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+            <div className="flex gap-1">
+              <select
+                className={`${selectClass} flex-1`}
+                value={binding.command}
+                onChange={(e) => {
+                  const command = e.target.value as AppCommandType;
+                  updateTrigger(binding.id, { command, value: defaultValue(command) });
+                }}
+              >
+                {COMMANDS.map(c => <option key={c} value={c}>{c.replace('_', ' ')}</option>)}
+              </select>
+              {binding.command === 'SHAPE' && (
+                <select className={`${selectClass} flex-1`} value={binding.value} onChange={(e) => updateTrigger(binding.id, { value: e.target.value })}>
+                  {shapes.map(s => <option key={s.name} value={s.name}>{s.label}</option>)}
+                </select>
+              )}
+              {binding.command === 'COLOR' && (
+                <select className={`${selectClass} flex-1`} value={binding.value} onChange={(e) => updateTrigger(binding.id, { value: e.target.value })}>
+                  {Object.entries(COLOR_PALETTES).map(([name, hex]) => <option key={name} value={hex}>{name}</option>)}
+                </select>
+              )}
+              {binding.command === 'SET_TEXT' && (
+                <input className={`${selectClass} flex-1`} value={binding.value} onChange={(e) => updateTrigger(binding.id, { value: e.target.value })} />
+              )}
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() => setBindings({
+            ...bindings,
+            triggers: [...bindings.triggers, { id: newId(), trigger: { kind: 'POSE', pose: HandPose.PEACE }, command: 'NEXT_CHAR', value: '' }]
+          })}
+          className="flex items-center justify-center gap-1 p-1 rounded text-[10px] font-mono text-gray-400 hover:text-white hover:bg-white/5"
+        >
+          <Plus size={10} /> ADD TRIGGER
+        </button>
+
+        {/* Continuous Mappings */}
+        <div className="text-[9px] font-mono text-gray-500 tracking-widest mt-1">CONTINUOUS</div>
+        {bindings.continuous.map(binding => (
+          <div key={binding.id} className="flex flex-col gap-1 border-l pl-2" style={{ borderColor: `${currentColor}40` }}>
+            <div className="flex gap-1 items-center">
+              <select className={`${selectClass} flex-1`} value={binding.signal} onChange={(e) => updateContinuous(binding.id, { signal: e.target.value as HandSignal })}>
+                {SIGNALS.map(s => <option key={s} value={s}>HAND {s}</option>)}
+              </select>
+              <span className="text-[10px] text-gray-500">→</span>
+              <select className={`${selectClass} flex-1`} value={binding.param} onChange={(e) => updateContinuous(binding.id, { param: e.target.value as ContinuousParam })}>
+                {PARAMS.map(p => <option key={p} value={p}>{p.replace('_', ' ')}</option>)}
+              </select>
+              <button
+                onClick={() => setBindings({ ...bindings, continuous: bindings.continuous.filter(b => b.id !== binding.id) })}
+                className="text-gray-500 hover:text-red-400"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="range" min="-3" max="3" step="0.1"
+                value={binding.gain}
+                onChange={(e) => updateContinuous(binding.id, { gain: Number(e.target.value) })}
+                className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+                style={{ accentColor: currentColor }}
+              />
+              <span className="text-[10px] font-mono w-8 text-right" style={{ color: currentColor }}>{binding.gain.toFixed(1)}</span>
+            </div>
+          </div>
+        ))}
+        <div className="flex gap-1">
+          <button
+            onClick={() => setBindings({
+              ...bindings,
+              continuous: [...bindings.continuous, { id: newId(), signal: 'X', param: 'ROLL', gain: 1.0 }]
+            })}
+            className="flex-1 flex items-center justify-center gap-1 p-1 rounded text-[10px] font-mono text-gray-400 hover:text-white hover:bg-white/5"
+          >
+            <Plus size={10} /> ADD MAPPING
+          </button>
+          <button
+            onClick={() => setBindings(DEFAULT_BINDINGS)}
+            className="flex-1 p-1 rounded text-[10px] font-mono text-gray-400 hover:text-white hover:bg-white/5"
+          >
+            DEFAULTS
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Crosshair, X } from 'lucide-react';
+import { HandCalibration, HandFrame } from '../types';
+import { CalibrationSamples, deriveCalibration } from '../services/calibration';
+
+interface CalibrationWizardProps {
+  // Returns an unsubscribe function, or null if the current hand source has no raw frames
+  subscribeHandFrames: (listener: (frame: HandFrame) => void) => (() => void) | null;
+  sourceKey: number; // Changes when the hand source does, to subscribe to the new one
+  onComplete: (calibration: HandCalibration) => void;
+  onReset: () => void;
+  onClose: () => void;
+  currentColor: string;
+}
+
+type Step = 'INTRO' | 'OPEN' | 'FIST' | 'REACH' | 'REVIEW';
+
+const CAPTURE_STEPS: { step: Step; key: keyof CalibrationSamples; durationMs: number; title: string; hint: string }[] = [
+  { step: 'OPEN', key: 'open', durationMs: 3000, title: "OPEN PALM", hint: "Face your palm to the camera, fingers spread wide." },
+  { step: 'FIST', key: 'fist', durationMs: 3000, title: "FIST", hint: "Close your hand into a tight fist." },
+  { step: 'REACH', key: 'reach', durationMs: 6000, title: "REACH", hint: "Sweep your open hand to every edge you can comfortably reach." },
+];
+
+// Ignore the first moments of each step while the user changes pose
+const SETTLE_MS = 1000;
+
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ subscribeHandFrames, sourceKey, onComplete, onReset, onClose, currentColor }) => {
+  const [step, setStep] = useState<Step>('INTRO');
+  const [progress, setProgress] = useState(0);
+  const [handVisible, setHandVisible] = useState(false);
+  const [result, setResult] = useState<HandCalibration | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [unsupported, setUnsupported] = useState(false);
+
+  const samplesRef = useRef<CalibrationSamples>({ open: [], fist: [], reach: [] });
+  const stepRef = useRef<Step>('INTRO');
+  const stepStartedRef = useRef(0);
+
+  // Collect raw frames for the active capture step
+  useEffect(() => {
+    const unsubscribe = subscribeHandFrames((frame) => {
+      setHandVisible(frame.landmarks.length > 0);
+      const capture = CAPTURE_STEPS.find(s => s.step === stepRef.current);
+      if (!capture || frame.landmarks.length === 0) return;
+      if (performance.now() - stepStartedRef.current < SETTLE_MS) return;
+      samplesRef.current[capture.key].push(frame.landmarks[0]);
+    });
+    setUnsupported(!unsubscribe);
+    return () => unsubscribe?.();
+  }, [sourceKey]);
+
+  // Step timer
+  useEffect(() => {
+    stepRef.current = step;
+    stepStartedRef.current = performance.now();
+    const capture = CAPTURE_STEPS.find(s => s.step === step);
+    if (!capture) return;
+
+    setProgress(0);
+    const timer = setInterval(() => {
+      const elapsed = performance.now() - stepStartedRef.current;
+      setProgress(Math.min(elapsed / (capture.durationMs + SETTLE_MS), 1));
+      if (elapsed < capture.durationMs + SETTLE_MS) return;
+
+      const index = CAPTURE_STEPS.indexOf(capture);
+      if (index < CAPTURE_STEPS.length - 1) {
+        setStep(CAPTURE_STEPS[index + 1].step);
+        return;
+      }
+      try {
+        setResult(deriveCalibration(samplesRef.current));
+        setError(null);
+      } catch (e) {
+        setResult(null);
+        setError(e instanceof Error ? e.message : String(e));
+      }
+      setStep('REVIEW');
+    }, 50);
+    return () => clearInterval(timer);
+  }, [step]);
+
+  const start = () => {
+    samplesRef.current = { open: [], fist: [], reach: [] };
+    setResult(null);
+    setError(null);
+    setStep('OPEN');
+  };
+
+  const capture = CAPTURE_STEPS.find(s => s.step === step);
+
+  return (
+    <div className="fixed inset-0 z-[80] bg-black/70 backdrop-blur-sm flex items-center justify-center pointer-events-auto">
+      <div className="bg-black/90 border rounded-lg w-[340px] shadow-[0_0_40px_rgba(0,0,0,0.8)]" style={{ borderColor: `${currentColor}60` }}>
+        <div className="bg-white/5 p-3 rounded-t flex items-center justify-between border-b" style={{ borderColor: `${currentColor}30` }}>
+          <span className="font-sci-fi text-sm flex items-center gap-2" style={{ color: currentColor }}>
+            <Crosshair size={16} /> CALIBRATION
+          </span>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={16} /></button>
+        </div>
+
+        <div className="p-4 font-mono text-xs text-white/80 flex flex-col gap-3">
+          {unsupported ? (
+            <p className="text-red-400">Calibration needs raw landmarks. Switch the hand source to CAMERA or REPLAY first.</p>
+          ) : step === 'INTRO' ? (
+            <>
+              <p>Three short steps measure your hand so fist detection, spread and reach fit you and your camera position.</p>
+              <p className="text-white/50">Sit where you normally do. Use one hand.</p>
+              <div className="flex gap-2">
+                <button onClick={start} className="flex-1 p-2 rounded bg-white/20 hover:bg-white/30 text-white">START</button>
+                <button onClick={onReset} className="flex-1 p-2 rounded hover:bg-white/5 text-gray-400">RESET TO DEFAULTS</button>
+              </div>
+            </>
+          ) : capture ? (
+            <>
+              <div className="font-sci-fi text-lg tracking-widest" style={{ color: currentColor }}>{capture.title}</div>
+              <p>{capture.hint}</p>
+              <div className="h-1 bg-white/10 rounded overflow-hidden">
+                <div className="h-full transition-all duration-75" style={{ width: `${progress * 100}%`, backgroundColor: currentColor }} />
+              </div>
+              <div className={`text-[10px] tracking-wider ${handVisible ? 'text-green-400' : 'text-yellow-500 animate-pulse'}`}>
+                {handVisible ? `CAPTURING · ${samplesRef.current[capture.key].length} FRAMES` : "NO HAND IN VIEW"}
+              </div>
+            </>
+          ) : (
+            <>
+              {result ? (
+                <div className="grid grid-cols-2 gap-1 text-[10px]">
+                  <span className="text-white/50">CLENCH DIST</span><span>{result.clenchDistance.toFixed(3)}</span>
+                  <span className="text-white/50">RAISE OFFSET</span><span>{result.raiseOffset.toFixed(3)}</span>
+                  <span className="text-white/50">SPREAD RANGE</span><span>{result.spreadMin.toFixed(2)} – {result.spreadMax.toFixed(2)}</span>
+                  <span className="text-white/50">REACH X</span><span>{result.region.minX.toFixed(2)} – {result.region.maxX.toFixed(2)}</span>
+                  <span className="text-white/50">REACH Y</span><span>{result.region.minY.toFixed(2)} – {result.region.maxY.toFixed(2)}</span>
+                </div>
+              ) : (
+                <p className="text-red-400">{error}</p>
+              )}
+              <div className="flex gap-2">
+                {result && (
+                  <button onClick={() => onComplete(result)} className="flex-1 p-2 rounded bg-white/20 hover:bg-white/30 text-white">SAVE</button>
+                )}
+                <button onClick={start} className="flex-1 p-2 rounded hover:bg-white/5 text-gray-400">RETRY</button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React from 'react';
+import { Tornado, Trash2 } from 'lucide-react';
+import { AudioBand, ForceField, ForceFieldKind } from '../types';
+import { FORCE_FIELD_PRESETS } from '../constants';
+
+interface ForceFieldsPanelProps {
+  fields: ForceField[];
+  setFields: (f: ForceField[]) => void;
+  currentColor: string;
+}
+
+const KINDS = Object.keys(FORCE_FIELD_PRESETS) as ForceFieldKind[];
+const BANDS: AudioBand[] = ['NONE', 'BASS', 'MID', 'TREBLE'];
+// Kinds whose radius does something
+const HAS_RADIUS: ForceFieldKind[] = ['CURL_NOISE', 'VORTEX', 'GRAVITY_WELL'];
+// Kinds that animate with speed
+const HAS_SPEED: ForceFieldKind[] = ['CURL_NOISE', 'VORTEX', 'GRAVITY_WELL', 'WIND'];
+// Kinds placed at a point (well centre, point on the vortex axis)
+const HAS_POSITION: ForceFieldKind[] = ['VORTEX', 'GRAVITY_WELL'];
+// Kinds with a direction (vortex axis, wind)
+const HAS_DIRECTION: ForceFieldKind[] = ['VORTEX', 'WIND'];
+
+const newId = () => Math.random().toString(36).slice(2, 10);
+
+const selectClass = "bg-black/60 border border-white/20 rounded px-1 py-0.5 text-[10px] font-mono text-white min-w-0";
+const rangeClass = "w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer";
+
+type Vector = [number, number, number];
+
+const VectorInput: React.FC<{ label: string; value: Vector; step: number; onChange: (v: Vector) => void }> = ({ label, value, step, onChange }) => (
+  <div className="flex gap-1 items-center" title={label}>
+    <span className="w-8 shrink-0 text-[9px] font-mono text-gray-400">{label}</span>
+    {value.map((v, axis) => (
+      <input
+        key={axis}
+        type="number" step={step}
+        className={`${selectClass} w-full`}
+        value={v}
+        onChange={(e) => {
+          const next = [...value] as Vector;
+          next[axis] = Number(e.target.value);
+          onChange(next);
+        }}
+      />
+    ))}
+  </div>
+);
+
+// Slider range around the preset strength; wells can go negative to repel
+const strengthRange = (kind: ForceFieldKind) => {
+  const max = FORCE_FIELD_PRESETS[kind].strength * 4;
+  return { min: kind === 'GRAVITY_WELL' ? -max : 0, max, step: max / 100 };
+};
+
+export const ForceFieldsPanel: React.FC<ForceFieldsPanelProps> = ({ fields, setFields, currentColor }) => {
+  const update = (id: string, patch: Partial<ForceField>) =>
+    setFields(fields.map(f => f.id === id ? { ...f, ...patch } : f));
+
+  return (
+    <div className="bg-black/80 backdrop-blur-md border p-1 rounded-lg shadow-[0_0_20px_rgba(0,0,0,0.5)] shrink-0" style={{ borderColor: `${currentColor}40` }}>
+      <div className="bg-white/5 p-3 mb-1 rounded flex items-center justify-between border-b" style={{ borderColor: `${currentColor}30` }}>
+        <span className="font-sci-fi text-sm" style={{ color: currentColor }}>FIELDS</span>
+        <Tornado size={16} style={{ color: currentColor }} />
+      </div>
+
+      <div className="p-2 flex flex-col gap-2">
+        {fields.map(field => (
+          <div key={field.id} className="flex flex-col gap-1 border-l pl-2" style={{ borderColor: field.enabled ? currentColor : `${currentColor}40` }}>
+            <div className="flex gap-1 items-center">
+              <button
+                onClick={() => update(field.id, { enabled: !field.enabled })}
+                className={`flex-1 text-left text-[10px] font-mono tracking-widest ${field.enabled ? 'text-white' : 'text-gray-500 hover:text-white'}`}
+                title={field.enabled ? 'Disable' : 'Enable'}
+              >
+                {field.kind.replace('_', ' ')}
+              </button>
+              <button onClick={() => setFields(fields.filter(f => f.id !== field.id))} className="text-gray-500 hover:text-red-400" title="Remove field">
+                <Trash2 size={12} />
+              </button>
+            </div>
+            <input
+              type="range" {...strengthRange(field.kind)}
+              value={field.strength}
+              onChange={(e) => update(field.id, { strength: Number(e.target.value) })}
+              className={rangeClass}
+              style={{ accentColor: currentColor }}
+              title="Strength"
+            />
+            {HAS_RADIUS.includes(field.kind) && (
+              <input
+                type="range" min="0" max="15" step="0.5"
+                value={field.radius}
+                onChange={(e) => update(field.id, { radius: Number(e.target.value) })}
+                className={rangeClass}
+                style={{ accentColor: currentColor }}
+                title={field.kind === 'CURL_NOISE' ? 'Feature size' : 'Reach (0 = unlimited)'}
+              />
+            )}
+            {HAS_SPEED.includes(field.kind) && (
+              <input
+                type="range" min="0" max="2" step="0.05"
+                value={field.speed}
+                onChange={(e) => update(field.id, { speed: Number(e.target.value) })}
+                className={rangeClass}
+                style={{ accentColor: currentColor }}
+                title="Animation speed"
+              />
+            )}
+            {HAS_POSITION.includes(field.kind) && (
+              <VectorInput label="POS" value={field.position} step={0.5} onChange={(position) => update(field.id, { position })} />
+            )}
+            {HAS_DIRECTION.includes(field.kind) && (
+              <VectorInput label="DIR" value={field.direction} step={0.1} onChange={(direction) => update(field.id, { direction })} />
+            )}
+            <div className="flex gap-1">
+              <select
+                className={`${selectClass} flex-1`}
+                value={field.audioBand}
+                onChange={(e) => update(field.id, { audioBand: e.target.value as AudioBand })}
+                title="Audio band that boosts this field"
+              >
+                {BANDS.map(b => <option key={b} value={b}>{b === 'NONE' ? 'NO AUDIO' : b}</option>)}
+              </select>
+              {field.audioBand !== 'NONE' && (
+                <input
+                  type="number" min="0" step="0.5"
+                  className={`${selectClass} w-12`}
+                  value={field.audioGain}
+                  onChange={(e) => update(field.id, { audioGain: Number(e.target.value) })}
+                  title="Audio gain"
+                />
+              )}
+            </div>
+          </div>
+        ))}
+        <select
+          className={selectClass}
+          value=""
+          onChange={(e) => {
+            const kind = e.target.value as ForceFieldKind;
+            if (kind) setFields([...fields, { id: newId(), ...FORCE_FIELD_PRESETS[kind] }]);
+          }}
+        >
+          <option value="">+ ADD FIELD</option>
+          {KINDS.map(k => <option key={k} value={k}>{k.replace('_', ' ')}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
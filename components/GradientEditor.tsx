@@ -0,0 +1,72 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { GradientStop } from '../types';
+
+interface GradientEditorProps {
+  stops: GradientStop[];
+  setStops: (stops: GradientStop[]) => void;
+  currentColor: string;
+}
+
+const colorInputClass = "w-6 h-5 shrink-0 bg-transparent border border-white/20 rounded cursor-pointer";
+
+// Preview bar plus one row per stop. Rows keep their order while a stop is dragged
+// past another; only the preview (and gradientTable) sort by position.
+export const GradientEditor: React.FC<GradientEditorProps> = ({ stops, setStops, currentColor }) => {
+  const sorted = [...stops].sort((a, b) => a.position - b.position);
+  const preview = `linear-gradient(to right, ${sorted.map(s => `${s.color} ${s.position * 100}%`).join(', ')})`;
+
+  const update = (index: number, patch: Partial<GradientStop>) =>
+    setStops(stops.map((s, i) => i === index ? { ...s, ...patch } : s));
+
+  // New stop in the middle of the widest gap, starting from the colour to its left
+  const add = () => {
+    if (sorted.length < 2) {
+      setStops([...stops, { position: 1, color: currentColor }]);
+      return;
+    }
+    let gap = 0;
+    for (let i = 1; i < sorted.length - 1; i++) {
+      if (sorted[i + 1].position - sorted[i].position > sorted[gap + 1].position - sorted[gap].position) gap = i;
+    }
+    const position = (sorted[gap].position + sorted[gap + 1].position) / 2;
+    setStops([...stops, { position, color: sorted[gap].color }]);
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="h-3 rounded border border-white/20" style={{ background: preview }} />
+      {stops.map((stop, i) => (
+        <div key={i} className="flex items-center gap-1">
+          <input
+            type="color"
+            value={stop.color}
+            onChange={(e) => update(i, { color: e.target.value })}
+            className={colorInputClass}
+          />
+          <input
+            type="range" min="0" max="1" step="0.01"
+            value={stop.position}
+            onChange={(e) => update(i, { position: Number(e.target.value) })}
+            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+            style={{ accentColor: currentColor }}
+          />
+          <button
+            onClick={() => setStops(stops.filter((_, j) => j !== i))}
+            disabled={stops.length <= 2}
+            className="text-gray-500 hover:text-red-400 disabled:opacity-20 disabled:hover:text-gray-500"
+            title="Remove stop"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={add}
+        className="flex items-center justify-center gap-1 p-1 rounded text-[10px] font-mono text-gray-400 hover:bg-white/5 hover:text-white"
+      >
+        <Plus size={12} /> ADD STOP
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Boxes, Plus, Trash2 } from 'lucide-react';
+import { GroupLayout, ParticleGroup, PhysicsSettings } from '../types';
+import { ADDED_GROUP_COUNT, ADDED_GROUP_LAYOUT, COLOR_PALETTES, DEFAULT_GROUP } from '../constants';
+
+interface GroupsPanelProps {
+  groups: ParticleGroup[];
+  activeGroupId: string;
+  selectGroup: (id: string) => void;
+  addGroup: (group: ParticleGroup) => void;
+  removeGroup: (id: string) => void;
+  editGroup: (id: string, patch: Partial<ParticleGroup>) => void;
+  currentColor: string;
+}
+
+const newId = () => Math.random().toString(36).slice(2, 10);
+
+const rangeClass = "w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer";
+
+const Slider: React.FC<{
+  label: string; value: number; min: number; max: number; step: number;
+  onChange: (v: number) => void; currentColor: string;
+}> = ({ label, value, min, max, step, onChange, currentColor }) => (
+  <label className="flex items-center gap-2 text-[9px] font-mono text-gray-400">
+    <span className="w-12 shrink-0">{label}</span>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className={rangeClass}
+      style={{ accentColor: currentColor }}
+    />
+    <span className="w-8 text-right text-white">{value.toFixed(step < 0.01 ? 3 : step < 1 ? 2 : 0)}</span>
+  </label>
+);
+
+export const GroupsPanel: React.FC<GroupsPanelProps> = ({
+  groups, activeGroupId, selectGroup, addGroup, removeGroup, editGroup, currentColor
+}) => {
+  const active = groups.find(g => g.id === activeGroupId) ?? groups[0];
+  const setLayout = (patch: Partial<GroupLayout>) => editGroup(active.id, { layout: { ...active.layout, ...patch } });
+  const setPhysics = (patch: Partial<PhysicsSettings>) => editGroup(active.id, { physics: { ...active.physics, ...patch } });
+  const setOffset = (axis: number, v: number) => {
+    const position = [...active.layout.position] as [number, number, number];
+    position[axis] = v;
+    setLayout({ position });
+  };
+
+  const add = () => {
+    const palette = Object.values(COLOR_PALETTES);
+    addGroup({
+      ...DEFAULT_GROUP,
+      id: newId(),
+      name: `GROUP ${groups.length + 1}`,
+      seed: Math.max(...groups.map(g => g.seed)) + 1,
+      color: palette[groups.length % palette.length],
+      count: ADDED_GROUP_COUNT,
+      layout: ADDED_GROUP_LAYOUT,
+    });
+  };
+
+  return (
+    <div className="bg-black/80 backdrop-blur-md border p-1 rounded-lg shadow-[0_0_20px_rgba(0,0,0,0.5)] shrink-0" style={{ borderColor: `${currentColor}40` }}>
+      <div className="bg-white/5 p-3 mb-1 rounded flex items-center justify-between border-b" style={{ borderColor: `${currentColor}30` }}>
+        <span className="font-sci-fi text-sm" style={{ color: currentColor }}>GROUPS</span>
+        <Boxes size={16} style={{ color: currentColor }} />
+      </div>
+
+      <div className="p-2 flex flex-col gap-1">
+        {groups.map(group => (
+          <div key={group.id} className="flex gap-1 items-center">
+            <button
+              onClick={() => selectGroup(group.id)}
+              className={`flex-1 flex items-center gap-2 p-1 rounded text-[10px] font-mono text-left transition-colors ${
+                group.id === active.id ? 'bg-white/20 text-white' : 'hover:bg-white/5 text-gray-400'
+              }`}
+            >
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: group.color }} />
+              <span className="truncate">{group.name}</span>
+              <span className="ml-auto opacity-50 truncate">{group.shape.replace('_', ' ')}</span>
+            </button>
+            {groups.length > 1 && (
+              <button onClick={() => removeGroup(group.id)} className="text-gray-500 hover:text-red-400" title="Remove group">
+                <Trash2 size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={add}
+          className="flex items-center justify-center gap-1 p-1 rounded text-[10px] font-mono text-gray-400 hover:bg-white/5 hover:text-white"
+        >
+          <Plus size={12} /> ADD GROUP
+        </button>
+      </div>
+
+      {/* Selected group: formation, colour and density are set in the panels below */}
+      <div className="p-2 pt-1 flex flex-col gap-1 border-t" style={{ borderColor: `${currentColor}30` }}>
+        <Slider label="X" value={active.layout.position[0]} min={-20} max={20} step={0.5} onChange={v => setOffset(0, v)} currentColor={currentColor} />
+        <Slider label="Y" value={active.layout.position[1]} min={-12} max={12} step={0.5} onChange={v => setOffset(1, v)} currentColor={currentColor} />
+        <Slider label="Z" value={active.layout.position[2]} min={-20} max={20} step={0.5} onChange={v => setOffset(2, v)} currentColor={currentColor} />
+        <Slider label="SCALE" value={active.layout.scale} min={0.1} max={2} step={0.05} onChange={v => setLayout({ scale: v })} currentColor={currentColor} />
+        <Slider label="ORBIT" value={active.layout.orbit} min={-1} max={1} step={0.05} onChange={v => setLayout({ orbit: v })} currentColor={currentColor} />
+        <Slider label="PULL" value={active.physics.attraction} min={0.005} max={0.1} step={0.005} onChange={v => setPhysics({ attraction: v })} currentColor={currentColor} />
+        <Slider label="DAMPING" value={active.physics.damping} min={0.8} max={0.99} step={0.01} onChange={v => setPhysics({ damping: v })} currentColor={currentColor} />
+        <Slider label="JITTER" value={active.physics.noise} min={0} max={0.1} step={0.005} onChange={v => setPhysics({ noise: v })} currentColor={currentColor} />
+        <button
+          onClick={() => editGroup(active.id, { aura: !active.aura })}
+          className={`mt-1 p-1 rounded text-[10px] font-mono ${active.aura ? 'bg-white/20 text-white' : 'text-gray-500 hover:text-white'}`}
+        >
+          AURA {active.aura ? 'ON' : 'OFF'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TrailSettings } from '../types';
+import { AudioService } from '../services/audio';
+
+// Feedback render pass for motion trails. Each frame the scene is drawn on its own
+// (additive blending intact), then merged into a fading history with max(): moving
+// particles leave a tail, resting ones don't pile up brightness.
+
+const vertexShader = /* glsl */ `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+const decayShader = /* glsl */ `
+  uniform sampler2D tHistory;
+  uniform sampler2D tFrame;
+  uniform float uKeep; // Multiplied per frame (exponential fade)
+  uniform float uDrop; // Subtracted per frame (linear fade)
+  varying vec2 vUv;
+
+  void main() {
+    vec4 history = max(texture2D(tHistory, vUv) * uKeep - uDrop, 0.0);
+    gl_FragColor = max(history, texture2D(tFrame, vUv));
+  }
+`;
+
+const copyShader = /* glsl */ `
+  uniform sampler2D tMap;
+  varying vec2 vUv;
+
+  void main() {
+    gl_FragColor = texture2D(tMap, vUv);
+  }
+`;
+
+const FADED = 0.02; // Share of the brightness left at the end of an exponential trail
+
+const createTarget = (width: number, height: number) =>
+  new THREE.WebGLRenderTarget(width, height, { type: THREE.HalfFloatType, depthBuffer: true });
+
+interface TrailPassProps {
+  settings: TrailSettings;
+  audioService: React.MutableRefObject<AudioService | null>;
+}
+
+// Takes over rendering while mounted (a positive useFrame priority disables R3F's own render)
+export const TrailPass: React.FC<TrailPassProps> = ({ settings, audioService }) => {
+  const { gl, size, viewport } = useThree();
+
+  const pass = useMemo(() => {
+    const width = Math.max(1, Math.floor(size.width * viewport.dpr));
+    const height = Math.max(1, Math.floor(size.height * viewport.dpr));
+    const decay = new THREE.ShaderMaterial({
+      vertexShader,
+      fragmentShader: decayShader,
+      uniforms: { tHistory: { value: null }, tFrame: { value: null }, uKeep: { value: 1 }, uDrop: { value: 0 } },
+      depthTest: false,
+      depthWrite: false,
+    });
+    const copy = new THREE.ShaderMaterial({
+      vertexShader,
+      fragmentShader: copyShader,
+      uniforms: { tMap: { value: null } },
+      depthTest: false,
+      depthWrite: false,
+    });
+    const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), decay);
+    quad.frustumCulled = false;
+    return {
+      frame: createTarget(width, height),
+      history: [createTarget(width, height), createTarget(width, height)],
+      decay,
+      copy,
+      quad,
+      scene: new THREE.Scene().add(quad),
+      camera: new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1),
+    };
+  }, [size.width, size.height, viewport.dpr]);
+
+  useEffect(() => () => {
+    pass.frame.dispose();
+    pass.history.forEach(t => t.dispose());
+    pass.decay.dispose();
+    pass.copy.dispose();
+    pass.quad.geometry.dispose();
+  }, [pass]);
+
+  useFrame((state, delta) => {
+    const [read, write] = pass.history;
+    const bass = audioService.current?.getFrequencyData().bass ?? 0;
+    const length = Math.max(settings.length * (1 + bass * settings.audioGain), 1e-3);
+    const progress = Math.min(delta / length, 1); // Share of the trail's life this frame
+
+    // The plain frame
+    gl.setRenderTarget(pass.frame);
+    gl.render(state.scene, state.camera);
+
+    // Fade the history and merge the frame in
+    pass.decay.uniforms.uKeep.value = THREE.MathUtils.lerp(1, Math.pow(FADED, progress), settings.fade);
+    pass.decay.uniforms.uDrop.value = progress * (1 - settings.fade);
+    pass.decay.uniforms.tHistory.value = read.texture;
+    pass.decay.uniforms.tFrame.value = pass.frame.texture;
+    pass.quad.material = pass.decay;
+    gl.setRenderTarget(write);
+    gl.render(pass.scene, pass.camera);
+
+    // Show it
+    pass.copy.uniforms.tMap.value = write.texture;
+    pass.quad.material = pass.copy;
+    gl.setRenderTarget(null);
+    gl.render(pass.scene, pass.camera);
+
+    pass.history.reverse();
+  }, 1);
+
+  return null;
+};
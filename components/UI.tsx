@@ -1,14 +1,23 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { ParticleShape, HandData } from '../types';
-import { Activity, Radio, Hand, Grip, Cpu, Palette, Mic, MicOff, Waves, AlertTriangle, Video, VideoOff, Clock, Calendar, Camera, Layers, Settings, X, ChevronRight, ChevronLeft, Atom } from 'lucide-react';
-import { COLOR_PALETTES } from '../constants';
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { ParticleShape, HandData, HandPose, SmoothingConfig, OneEuroParams, BindingConfig, Drawing, CameraStatus, CameraDevice, CameraSettings, ImageSampling, TextSettings, TransitionSettings, TransitionStyle, Easing, ForceField, ParticleGroup, ColorSettings, ColorMode, GradientAxis, TrailSettings, QualitySettings, QualityLevel } from '../types';
+import { Activity, Radio, Hand, Grip, Cpu, Palette, Mic, MicOff, Waves, AlertTriangle, Video, VideoOff, Clock, Calendar, Camera, Layers, Settings, X, ChevronRight, ChevronLeft, Atom, Move, Disc, Play, Square, MousePointer, Crosshair, PenTool, Trash2, Upload } from 'lucide-react';
+import { COLOR_PALETTES, CAMERA_RESOLUTIONS, CAMERA_FRAME_RATES, IMAGE_RELIEF_DEPTH, TEXT_FONTS, TEXT_EXTRUDE_DEPTH, TRANSITION_STYLES, EASINGS, COLOR_MODES, GRADIENT_AXES, TARGET_FPS_OPTIONS } from '../constants';
 import { AudioService } from '../services/audio';
+import { BindingsPanel } from './BindingsPanel';
+import { ForceFieldsPanel } from './ForceFieldsPanel';
+import { GroupsPanel } from './GroupsPanel';
+import { GradientEditor } from './GradientEditor';
+import { listShapes, subscribeShapes } from '../services/shapeRegistry';
+import { MODEL_EXTENSIONS } from '../services/modelImport';
+import { IMAGE_EXTENSIONS } from '../services/imageImport';
 
 interface UIProps {
-  currentShape: ParticleShape;
-  setShape: (s: ParticleShape) => void;
+  currentShape: string;
+  setShape: (s: string) => void;
   currentColor: string;
   setColor: (c: string) => void;
+  coloring: ColorSettings;
+  setColoring: (c: ColorSettings) => void;
   handData: HandData;
   loading: boolean;
   audioEnabled: boolean;
@@ -19,27 +28,121 @@ interface UIProps {
   toggleVoice: () => void;
   videoEnabled: boolean;
   toggleVideo: () => void;
+  cameraStatus: CameraStatus;
+  cameras: CameraDevice[];
+  cameraSettings: CameraSettings;
+  setCameraSettings: (s: CameraSettings) => void;
+  mouseEnabled: boolean;
+  toggleMouse: () => void;
+  isRecording: boolean;
+  toggleRecording: () => void;
+  isReplaying: boolean;
+  loadReplay: (file: File) => void;
+  stopReplay: () => void;
+  onCalibrate: () => void;
   onSnapshot: () => void;
   particleCount: number;
   setParticleCount: (n: number) => void;
-  charIndex: number;
+  smoothing: SmoothingConfig;
+  setSmoothing: (s: SmoothingConfig) => void;
+  bindings: BindingConfig;
+  setBindings: (b: BindingConfig) => void;
+  forceFields: ForceField[];
+  setForceFields: (f: ForceField[]) => void;
+  textSettings: TextSettings;
+  setTextSettings: (t: TextSettings) => void;
   cycleChar: (dir: number) => void;
   numIndex: number;
   cycleNum: (dir: number) => void;
+  drawings: Drawing[];
+  activeDrawingId: string | null;
+  selectDrawing: (id: string) => void;
+  deleteDrawing: (id: string) => void;
+  onStartAirDrawing: () => void;
+  importFormation: (file: File) => void;
+  importStatus: string | null;
+  sourceColors: boolean;
+  setSourceColors: (v: boolean) => void;
+  imageSampling: ImageSampling;
+  setImageSampling: (v: ImageSampling) => void;
+  transition: TransitionSettings;
+  setTransition: (t: TransitionSettings) => void;
+  trails: TrailSettings;
+  setTrails: (t: TrailSettings) => void;
+  quality: QualitySettings;
+  setQuality: (q: QualitySettings) => void;
+  qualityLevel: QualityLevel | null;
+  groups: ParticleGroup[];
+  activeGroupId: string;
+  selectGroup: (id: string) => void;
+  addGroup: (group: ParticleGroup) => void;
+  removeGroup: (id: string) => void;
+  editGroup: (id: string, patch: Partial<ParticleGroup>) => void;
 }
 
+const CAMERA_STATUS_LABELS: Record<CameraStatus, string> = {
+  OFF: 'OFFLINE',
+  STARTING: 'STARTING',
+  LIVE: 'LIVE',
+  MUTED: 'NO FRAMES',
+  RECONNECTING: 'CAMERA LOST · RECONNECTING',
+  DENIED: 'PERMISSION DENIED',
+  FAILED: 'NO CAMERA FOUND',
+};
+
+const FORMATION_FILE_TYPES = [...MODEL_EXTENSIONS, ...IMAGE_EXTENSIONS].map(ext => `.${ext}`).join(',');
+
+const selectClass = "bg-black/60 border border-white/20 rounded px-1 py-0.5 text-[10px] font-mono text-white min-w-0";
+
+const TEXT_DELAY = 300; // ms; typed text is rasterized once the typing pauses
+
+// Text box for the TEXT formation. Keystrokes stay local until typing pauses;
+// changes from elsewhere (voice, gestures) show up right away.
+const TextDraft: React.FC<{ value: string; onCommit: (text: string) => void }> = ({ value, onCommit }) => {
+  const [draft, setDraft] = useState(value);
+  const commitRef = useRef(onCommit);
+  commitRef.current = onCommit;
+
+  useEffect(() => setDraft(value), [value]);
+
+  useEffect(() => {
+    if (draft === value) return;
+    const timer = setTimeout(() => commitRef.current(draft), TEXT_DELAY);
+    return () => clearTimeout(timer);
+  }, [draft]);
+
+  return (
+    <textarea
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      rows={2}
+      placeholder="Type anything..."
+      className="w-full bg-black/60 border border-white/20 rounded px-1.5 py-1 text-[10px] font-mono text-white resize-none"
+    />
+  );
+};
+
 export const UI: React.FC<UIProps> = ({ 
-    currentShape, setShape, currentColor, setColor, handData, loading,
+    currentShape, setShape, currentColor, setColor, coloring, setColoring, handData, loading,
     audioEnabled, audioError, toggleAudio, voiceStatus, audioServiceRef, toggleVoice,
-    videoEnabled, toggleVideo, onSnapshot,
-    particleCount, setParticleCount,
-    charIndex, cycleChar, numIndex, cycleNum
+    videoEnabled, toggleVideo, cameraStatus, cameras, cameraSettings, setCameraSettings,
+    mouseEnabled, toggleMouse, onSnapshot,
+    isRecording, toggleRecording, isReplaying, loadReplay, stopReplay, onCalibrate,
+    particleCount, setParticleCount, smoothing, setSmoothing, bindings, setBindings, forceFields, setForceFields,
+    textSettings, setTextSettings, cycleChar, numIndex, cycleNum,
+    drawings, activeDrawingId, selectDrawing, deleteDrawing, onStartAirDrawing,
+    importFormation, importStatus, sourceColors, setSourceColors, imageSampling, setImageSampling, transition, setTransition, trails, setTrails, quality, setQuality, qualityLevel,
+    groups, activeGroupId, selectGroup, addGroup, removeGroup, editGroup
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const formationInputRef = useRef<HTMLInputElement>(null);
   const [time, setTime] = useState<string>('');
   const [date, setDate] = useState<string>('');
   const [cpuUsage, setCpuUsage] = useState<number>(0);
   const [showControls, setShowControls] = useState(true);
+  // Formations come from the shape registry, including ones registered by other modules
+  const shapes = useSyncExternalStore(subscribeShapes, listShapes).filter(s => !s.hidden);
 
   // Responsive: Auto-collapse on small screens
   useEffect(() => {
@@ -116,7 +219,8 @@ export const UI: React.FC<UIProps> = ({
             style={{
                 left: '50%',
                 top: '50%',
-                transform: `translate(${handData.x * window.innerWidth/2}px, ${-handData.y * window.innerHeight/2}px)`
+                // Reticle grows as the hand approaches the camera
+                transform: `translate(${handData.x * window.innerWidth/2}px, ${-handData.y * window.innerHeight/2}px) scale(${1 + handData.z * 0.3})`
             }}
         >
             <div className={`relative flex items-center justify-center -translate-x-1/2 -translate-y-1/2 transition-all duration-300 ${handData.isClenched ? 'scale-75' : 'scale-100'}`}>
@@ -128,12 +232,41 @@ export const UI: React.FC<UIProps> = ({
                 <div className="absolute top-0 w-full h-full border-t border-b border-transparent opacity-60" style={{ borderTopColor: currentColor }}></div>
                 
                 <div className="absolute top-10 left-1/2 -translate-x-1/2 text-[10px] font-sci-fi tracking-widest whitespace-nowrap" style={{ color: currentColor }}>
-                   {handData.isDetected ? (handData.isClenched ? "CLENCH DETECTED" : "TRACKING") : "NO SIGNAL"}
+                   {handData.isDetected ? (
+                       handData.hands.length > 1 ? "BIMANUAL" :
+                       handData.isClenched ? "CLENCH DETECTED" :
+                       handData.pose !== HandPose.NONE ? `${handData.pose.replace('_', ' ')} ${Math.round(handData.poseConfidence * 100)}%` :
+                       "TRACKING"
+                   ) : videoEnabled && cameraStatus !== 'LIVE' ? CAMERA_STATUS_LABELS[cameraStatus] : "NO SIGNAL"}
                 </div>
             </div>
         </div>
       )}
 
+      {/* --- Secondary Hand Reticle --- */}
+      {!loading && handData.hands.slice(1).map((hand, i) => (
+        <div 
+            key={i}
+            className="pointer-events-none fixed z-40 transition-transform duration-75 ease-out"
+            style={{
+                left: '50%',
+                top: '50%',
+                transform: `translate(${hand.x * window.innerWidth/2}px, ${-hand.y * window.innerHeight/2}px)`
+            }}
+        >
+            <div className={`relative flex items-center justify-center -translate-x-1/2 -translate-y-1/2 transition-all duration-300 ${hand.isClenched ? 'scale-75' : 'scale-100'}`}>
+                <div 
+                    className="w-12 h-12 rounded-full border border-dashed border-opacity-50 animate-spin-reverse-slower"
+                    style={{ borderColor: hand.isClenched ? '#ffffff' : currentColor }}
+                ></div>
+                <div className="absolute w-1.5 h-1.5 rounded-full" style={{ backgroundColor: currentColor }}></div>
+                <div className="absolute top-8 left-1/2 -translate-x-1/2 text-[9px] font-mono tracking-widest whitespace-nowrap opacity-70" style={{ color: currentColor }}>
+                   {hand.handedness.toUpperCase()}{hand.pose !== HandPose.NONE && ` · ${hand.pose.replace('_', ' ')}`}
+                </div>
+            </div>
+        </div>
+      ))}
+
       {/* --- Main Layout --- */}
       <div className="fixed inset-0 pointer-events-none flex flex-col justify-between p-4 md:p-6 z-50">
         
@@ -251,16 +384,111 @@ export const UI: React.FC<UIProps> = ({
                         {/* Video Signal Indicator */}
                         <div className="flex items-center justify-between px-2 text-[9px] font-mono h-3">
                             <span className="opacity-50">SIGNAL:</span>
-                            {videoEnabled ? (
+                            {isReplaying ? (
+                                <span className="text-cyan-400 tracking-wider">REPLAY</span>
+                            ) : mouseEnabled ? (
+                                <span className="text-cyan-400 tracking-wider">SIMULATED</span>
+                            ) : videoEnabled && cameraStatus !== 'LIVE' ? (
+                                <span className="text-yellow-500 animate-pulse tracking-wider truncate">{CAMERA_STATUS_LABELS[cameraStatus]}</span>
+                            ) : videoEnabled ? (
                                 handData.isDetected ? (
                                     <span className="text-green-400 tracking-wider">LOCKED</span>
                                 ) : (
                                     <span className="text-yellow-500 animate-pulse tracking-wider">SEARCHING</span>
                                 )
+                            ) : cameraStatus === 'DENIED' || cameraStatus === 'FAILED' ? (
+                                <span className="text-red-500 tracking-wider">{CAMERA_STATUS_LABELS[cameraStatus]}</span>
                             ) : (
                                 <span className="text-red-500 tracking-wider">N/A</span>
                             )}
                         </div>
+
+                        {/* Camera Selection */}
+                        <div className="flex flex-col gap-1">
+                            <select
+                                className={selectClass}
+                                value={cameraSettings.deviceId ?? ''}
+                                onChange={(e) => setCameraSettings({ ...cameraSettings, deviceId: e.target.value || null })}
+                                title="Camera"
+                            >
+                                <option value="">DEFAULT CAMERA</option>
+                                {cameras.map(c => <option key={c.deviceId} value={c.deviceId}>{c.label}</option>)}
+                            </select>
+                            <div className="flex gap-1">
+                                <select
+                                    className={`${selectClass} flex-1`}
+                                    value={`${cameraSettings.width}x${cameraSettings.height}`}
+                                    onChange={(e) => {
+                                        const [width, height] = e.target.value.split('x').map(Number);
+                                        setCameraSettings({ ...cameraSettings, width, height });
+                                    }}
+                                    title="Resolution"
+                                >
+                                    {CAMERA_RESOLUTIONS.map(([w, h]) => <option key={w} value={`${w}x${h}`}>{w}×{h}</option>)}
+                                </select>
+                                <select
+                                    className={`${selectClass} flex-1`}
+                                    value={cameraSettings.frameRate}
+                                    onChange={(e) => setCameraSettings({ ...cameraSettings, frameRate: Number(e.target.value) })}
+                                    title="Frame rate"
+                                >
+                                    {CAMERA_FRAME_RATES.map(fps => <option key={fps} value={fps}>{fps} FPS</option>)}
+                                </select>
+                            </div>
+                        </div>
+
+                        {/* Alternative Hand Sources */}
+                        <div className="flex gap-1">
+                            <button
+                                onClick={toggleMouse}
+                                className={`flex-1 flex items-center justify-center gap-1 p-1.5 rounded text-[10px] font-mono transition-colors ${
+                                    mouseEnabled ? 'bg-white/20 text-white' : 'hover:bg-white/5 text-gray-400'
+                                }`}
+                                title="Simulate a hand: move, click = clench, wheel = depth, shift+wheel = spread, 1-7 = pose"
+                            >
+                                <MousePointer size={12} />
+                                <span>MOUSE</span>
+                            </button>
+                            <button
+                                onClick={toggleRecording}
+                                disabled={!videoEnabled}
+                                className={`flex-1 flex items-center justify-center gap-1 p-1.5 rounded text-[10px] font-mono transition-colors disabled:opacity-30 ${
+                                    isRecording ? 'bg-red-900/40 text-red-400 border border-red-900' : 'hover:bg-white/5 text-gray-400'
+                                }`}
+                            >
+                                <Disc size={12} className={isRecording ? 'animate-pulse' : ''} />
+                                <span>{isRecording ? "STOP" : "REC"}</span>
+                            </button>
+                            <button
+                                onClick={() => isReplaying ? stopReplay() : replayInputRef.current?.click()}
+                                className={`flex-1 flex items-center justify-center gap-1 p-1.5 rounded text-[10px] font-mono transition-colors ${
+                                    isReplaying ? 'bg-white/20 text-white' : 'hover:bg-white/5 text-gray-400'
+                                }`}
+                            >
+                                {isReplaying ? <Square size={12} /> : <Play size={12} />}
+                                <span>{isReplaying ? "STOP" : "REPLAY"}</span>
+                            </button>
+                            <input
+                                ref={replayInputRef}
+                                type="file"
+                                accept="application/json,.json"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) loadReplay(file);
+                                    e.target.value = '';
+                                }}
+                            />
+                        </div>
+
+                        <button
+                            onClick={onCalibrate}
+                            disabled={!videoEnabled && !isReplaying}
+                            className="flex items-center justify-center gap-1 p-1.5 rounded text-[10px] font-mono transition-colors hover:bg-white/5 text-gray-400 disabled:opacity-30"
+                        >
+                            <Crosshair size={12} />
+                            <span>CALIBRATE HAND</span>
+                        </button>
                      </div>
 
                      <div className="h-px bg-white/10 mx-1"></div>
@@ -306,6 +534,10 @@ export const UI: React.FC<UIProps> = ({
                         <Radio size={14} />
                         <span>OPEN TO RESET</span>
                     </div>
+                    <div className="flex items-center gap-2">
+                        <Move size={14} />
+                        <span>TWO HANDS TO STRETCH</span>
+                    </div>
                  </div>
             </div>
         </div>
@@ -336,11 +568,31 @@ export const UI: React.FC<UIProps> = ({
             `}
         >
           
+          {/* Particle Groups */}
+          <GroupsPanel
+            groups={groups}
+            activeGroupId={activeGroupId}
+            selectGroup={selectGroup}
+            addGroup={addGroup}
+            removeGroup={removeGroup}
+            editGroup={editGroup}
+            currentColor={currentColor}
+          />
+
           {/* Particle Density */}
           <div className="bg-black/80 backdrop-blur-md border p-1 rounded-lg shadow-[0_0_20px_rgba(0,0,0,0.5)] shrink-0" style={{ borderColor: `${currentColor}40` }}>
              <div className="bg-white/5 p-3 mb-1 rounded flex items-center justify-between border-b" style={{ borderColor: `${currentColor}30` }}>
                 <span className="font-sci-fi text-sm" style={{ color: currentColor }}>DENSITY</span>
-                <Layers size={16} style={{ color: currentColor }} />
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setQuality({ ...quality, auto: !quality.auto })}
+                        className={`text-[10px] font-mono px-2 rounded ${quality.auto ? 'bg-white/20 text-white' : 'text-gray-500'}`}
+                        title="Scale particles and resolution to hold the target frame rate"
+                    >
+                        AUTO
+                    </button>
+                    <Layers size={16} style={{ color: currentColor }} />
+                </div>
              </div>
              <div className="p-3">
                  <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-1">
@@ -358,6 +610,115 @@ export const UI: React.FC<UIProps> = ({
                     className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
                     style={{ accentColor: currentColor }}
                  />
+                 {quality.auto && (
+                     <div className="flex items-center justify-between gap-2 mt-2 text-[10px] font-mono text-gray-400">
+                         <select
+                            className={selectClass}
+                            value={quality.targetFps}
+                            onChange={(e) => setQuality({ ...quality, targetFps: Number(e.target.value) })}
+                            title="Target frame rate"
+                         >
+                            {TARGET_FPS_OPTIONS.map(fps => <option key={fps} value={fps}>{fps} FPS</option>)}
+                         </select>
+                         <span style={{ color: currentColor }}>
+                            {Math.round((qualityLevel?.countScale ?? 1) * 100)}% · DPR {(qualityLevel?.dpr ?? Math.min(Math.max(window.devicePixelRatio, 1), 2)).toFixed(2)}
+                         </span>
+                     </div>
+                 )}
+             </div>
+          </div>
+
+          {/* Motion Trails */}
+          <div className="bg-black/80 backdrop-blur-md border p-1 rounded-lg shadow-[0_0_20px_rgba(0,0,0,0.5)] shrink-0" style={{ borderColor: `${currentColor}40` }}>
+             <div className="bg-white/5 p-3 mb-1 rounded flex items-center justify-between border-b" style={{ borderColor: `${currentColor}30` }}>
+                <span className="font-sci-fi text-sm" style={{ color: currentColor }}>TRAILS</span>
+                <button
+                    onClick={() => setTrails({ ...trails, enabled: !trails.enabled })}
+                    className={`text-[10px] font-mono px-2 rounded ${trails.enabled ? 'bg-white/20 text-white' : 'text-gray-500'}`}
+                >
+                    {trails.enabled ? "ON" : "OFF"}
+                </button>
+             </div>
+             <div className={`p-3 flex flex-col gap-2 ${trails.enabled ? '' : 'opacity-30 pointer-events-none'}`}>
+                 {([
+                     ['LENGTH', 'length', 0.05, 2, 0.05, 'S'],
+                     ['FADE', 'fade', 0, 1, 0.05, ''],
+                     ['BASS', 'audioGain', 0, 5, 0.1, 'X'],
+                 ] as [string, 'length' | 'fade' | 'audioGain', number, number, number, string][]).map(([label, key, min, max, step, unit]) => (
+                     <div key={key} className="flex flex-col gap-1">
+                         <div className="flex justify-between text-[10px] font-mono text-gray-400">
+                             <span>{label}</span>
+                             <span style={{ color: currentColor }}>{trails[key].toFixed(2)}{unit}</span>
+                         </div>
+                         <input
+                            type="range" min={min} max={max} step={step}
+                            value={trails[key]}
+                            onChange={(e) => setTrails({ ...trails, [key]: Number(e.target.value) })}
+                            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+                            style={{ accentColor: currentColor }}
+                         />
+                     </div>
+                 ))}
+             </div>
+          </div>
+
+          {/* Signal Filter */}
+          <div className="bg-black/80 backdrop-blur-md border p-1 rounded-lg shadow-[0_0_20px_rgba(0,0,0,0.5)] shrink-0" style={{ borderColor: `${currentColor}40` }}>
+             <div className="bg-white/5 p-3 mb-1 rounded flex items-center justify-between border-b" style={{ borderColor: `${currentColor}30` }}>
+                <span className="font-sci-fi text-sm" style={{ color: currentColor }}>FILTER</span>
+                <button
+                    onClick={() => setSmoothing({ ...smoothing, enabled: !smoothing.enabled })}
+                    className={`text-[10px] font-mono px-2 rounded ${smoothing.enabled ? 'bg-white/20 text-white' : 'text-gray-500'}`}
+                >
+                    {smoothing.enabled ? "ON" : "OFF"}
+                </button>
+             </div>
+             <div className={`p-3 flex flex-col gap-2 ${smoothing.enabled ? '' : 'opacity-30 pointer-events-none'}`}>
+                 {([
+                     ['X', 'x'], ['Y', 'y'], ['DEPTH', 'z'], ['SPREAD', 'handSpread']
+                 ] as [string, 'x' | 'y' | 'z' | 'handSpread'][]).map(([label, key]) => {
+                     const params = smoothing[key];
+                     const update = (patch: Partial<OneEuroParams>) => setSmoothing({ ...smoothing, [key]: { ...params, ...patch } });
+                     return (
+                         <div key={key} className="flex flex-col gap-1">
+                             <div className="flex justify-between text-[10px] font-mono text-gray-400">
+                                 <span>{label}</span>
+                                 <span style={{ color: currentColor }}>{params.minCutoff.toFixed(1)}HZ / β{params.beta.toFixed(1)}</span>
+                             </div>
+                             <div className="flex gap-2">
+                                 <input 
+                                    type="range" min="0.1" max="5" step="0.1"
+                                    value={params.minCutoff}
+                                    onChange={(e) => update({ minCutoff: Number(e.target.value) })}
+                                    className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+                                    style={{ accentColor: currentColor }}
+                                    title="Min cutoff (less jitter)"
+                                 />
+                                 <input 
+                                    type="range" min="0" max="3" step="0.1"
+                                    value={params.beta}
+                                    onChange={(e) => update({ beta: Number(e.target.value) })}
+                                    className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+                                    style={{ accentColor: currentColor }}
+                                    title="Beta (less lag)"
+                                 />
+                             </div>
+                         </div>
+                     );
+                 })}
+                 <div className="flex flex-col gap-1">
+                     <div className="flex justify-between text-[10px] font-mono text-gray-400">
+                         <span>CLENCH HYSTERESIS</span>
+                         <span style={{ color: currentColor }}>{smoothing.clenchHysteresis.toFixed(3)}</span>
+                     </div>
+                     <input 
+                        type="range" min="0" max="0.05" step="0.005"
+                        value={smoothing.clenchHysteresis}
+                        onChange={(e) => setSmoothing({ ...smoothing, clenchHysteresis: Number(e.target.value) })}
+                        className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+                        style={{ accentColor: currentColor }}
+                     />
+                 </div>
              </div>
           </div>
 
@@ -377,6 +738,62 @@ export const UI: React.FC<UIProps> = ({
                         title={name}
                     />
                 ))}
+                <input
+                    type="color"
+                    value={currentColor}
+                    onChange={(e) => setColor(e.target.value)}
+                    className="w-6 h-6 bg-transparent border border-white/20 rounded-full cursor-pointer"
+                    title="Custom colour"
+                />
+             </div>
+             <div className="flex flex-col gap-2 p-2 pt-0">
+                <div className="flex gap-1">
+                    <select
+                        className={`${selectClass} flex-1`}
+                        value={coloring.mode}
+                        onChange={(e) => setColoring({ ...coloring, mode: e.target.value as ColorMode })}
+                        title="Colour mode"
+                    >
+                        {COLOR_MODES.map(mode => <option key={mode} value={mode}>{mode.replace('_', ' ')}</option>)}
+                    </select>
+                    {(coloring.mode === 'GRADIENT' || coloring.mode === 'SPECTRUM') && (
+                        <select
+                            className={selectClass}
+                            value={coloring.axis}
+                            onChange={(e) => setColoring({ ...coloring, axis: e.target.value as GradientAxis })}
+                            title={coloring.mode === 'SPECTRUM' ? 'Low to high frequencies along' : 'Gradient along'}
+                        >
+                            {GRADIENT_AXES.map(axis => <option key={axis} value={axis}>{axis}</option>)}
+                        </select>
+                    )}
+                </div>
+                {(coloring.mode === 'GRADIENT' || coloring.mode === 'SPECTRUM') && (
+                    <GradientEditor
+                        stops={coloring.stops}
+                        setStops={(stops) => setColoring({ ...coloring, stops })}
+                        currentColor={currentColor}
+                    />
+                )}
+                {coloring.mode === 'DUAL_TONE' && (
+                    <div className="flex gap-1 items-center justify-center flex-wrap">
+                        {Object.entries(COLOR_PALETTES).map(([name, color]) => (
+                            <button
+                                key={name}
+                                onClick={() => setColoring({ ...coloring, secondary: color })}
+                                className={`w-4 h-4 rounded-full border ${coloring.secondary === color ? 'border-white' : 'border-transparent opacity-50 hover:opacity-100'}`}
+                                style={{ backgroundColor: color }}
+                                title={`Second tone: ${name}`}
+                            />
+                        ))}
+                        <input
+                            type="color"
+                            value={coloring.secondary}
+                            onChange={(e) => setColoring({ ...coloring, secondary: e.target.value })}
+                            className="w-4 h-4 bg-transparent border border-white/20 rounded-full cursor-pointer"
+                            title="Custom second tone"
+                        />
+                    </div>
+                )}
              </div>
           </div>
 
@@ -388,52 +805,196 @@ export const UI: React.FC<UIProps> = ({
              </div>
              
              <div className="flex flex-col gap-1 p-2">
-                {Object.values(ParticleShape).map((shape) => (
-                    <div key={shape} className="relative">
-                        <button
-                            onClick={() => setShape(shape)}
-                            className={`
-                                w-full group relative overflow-hidden px-3 py-2 text-left transition-all duration-300 rounded
-                                ${currentShape === shape 
-                                    ? 'bg-white/10 text-white border-l-2 shadow-[0_0_15px_rgba(255,255,255,0.1)]' 
-                                    : 'text-gray-400 hover:text-white hover:bg-white/5 border-l-2 border-transparent'}
-                            `}
-                            style={{ borderColor: currentShape === shape ? currentColor : 'transparent' }}
-                        >
-                            <span className="relative z-10 text-[10px] md:text-xs font-bold tracking-widest flex items-center justify-between">
-                                {shape === 'TEXT' ? (currentShape === 'TEXT' ? `< ${String.fromCharCode(65 + charIndex)} >` : 'TEXT <A>') :
-                                 shape === 'NUMBER' ? (currentShape === 'NUMBER' ? `< ${numIndex} >` : 'NUMBER <1>') :
-                                 shape}
-                                {currentShape === shape && (shape !== 'TEXT' && shape !== 'NUMBER') && <ChevronRight size={12} />}
-                            </span>
-                            <div 
-                                className="absolute inset-0 translate-x-[-100%] group-hover:translate-x-0 transition-transform duration-300 opacity-20"
-                                style={{ background: `linear-gradient(to right, ${currentColor}, transparent)` }}
-                            ></div>
-                        </button>
+                {shapes.map(({ name: shape, label }) => (
+                    <div key={shape}>
+                        <div className="relative">
+                            <button
+                                onClick={() => setShape(shape)}
+                                className={`
+                                    w-full group relative overflow-hidden px-3 py-2 text-left transition-all duration-300 rounded
+                                    ${currentShape === shape 
+                                        ? 'bg-white/10 text-white border-l-2 shadow-[0_0_15px_rgba(255,255,255,0.1)]' 
+                                        : 'text-gray-400 hover:text-white hover:bg-white/5 border-l-2 border-transparent'}
+                                `}
+                                style={{ borderColor: currentShape === shape ? currentColor : 'transparent' }}
+                            >
+                                <span className="relative z-10 text-[10px] md:text-xs font-bold tracking-widest flex items-center justify-between">
+                                    {shape === 'TEXT' ? (currentShape === 'TEXT' ? `< ${textSettings.text.split('\n')[0].slice(0, 12)} >` : 'TEXT <A>') :
+                                     shape === 'NUMBER' ? (currentShape === 'NUMBER' ? `< ${numIndex} >` : 'NUMBER <1>') :
+                                     label}
+                                    {currentShape === shape && (shape !== 'TEXT' && shape !== 'NUMBER') && <ChevronRight size={12} />}
+                                </span>
+                                <div 
+                                    className="absolute inset-0 translate-x-[-100%] group-hover:translate-x-0 transition-transform duration-300 opacity-20"
+                                    style={{ background: `linear-gradient(to right, ${currentColor}, transparent)` }}
+                                ></div>
+                            </button>
                         
-                        {/* Special Controls for Text/Number */}
-                        {currentShape === shape && (shape === 'TEXT' || shape === 'NUMBER') && (
-                            <div className="absolute inset-0 flex justify-between z-20 pointer-events-none">
-                                <button 
-                                    onClick={(e) => { e.stopPropagation(); shape === 'TEXT' ? cycleChar(-1) : cycleNum(-1); }}
-                                    className="pointer-events-auto h-full w-8 flex items-center justify-center text-white/50 hover:text-white hover:bg-black/20"
-                                >
-                                    <ChevronLeft size={12}/>
-                                </button>
-                                <button 
-                                    onClick={(e) => { e.stopPropagation(); shape === 'TEXT' ? cycleChar(1) : cycleNum(1); }}
-                                    className="pointer-events-auto h-full w-8 flex items-center justify-center text-white/50 hover:text-white hover:bg-black/20"
-                                >
-                                    <ChevronRight size={12}/>
-                                </button>
+                            {/* Special Controls for Text/Number */}
+                            {currentShape === shape && (shape === 'TEXT' || shape === 'NUMBER') && (
+                                <div className="absolute inset-0 flex justify-between z-20 pointer-events-none">
+                                    <button 
+                                        onClick={(e) => { e.stopPropagation(); shape === 'TEXT' ? cycleChar(-1) : cycleNum(-1); }}
+                                        className="pointer-events-auto h-full w-8 flex items-center justify-center text-white/50 hover:text-white hover:bg-black/20"
+                                    >
+                                        <ChevronLeft size={12}/>
+                                    </button>
+                                    <button 
+                                        onClick={(e) => { e.stopPropagation(); shape === 'TEXT' ? cycleChar(1) : cycleNum(1); }}
+                                        className="pointer-events-auto h-full w-8 flex items-center justify-center text-white/50 hover:text-white hover:bg-black/20"
+                                    >
+                                        <ChevronRight size={12}/>
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                        {currentShape === shape && shape === 'TEXT' && (
+                            <div className="flex flex-col gap-1 mt-1">
+                                <TextDraft
+                                    value={textSettings.text}
+                                    onCommit={(text) => setTextSettings({ ...textSettings, text })}
+                                />
+                                <div className="flex gap-1">
+                                    <select
+                                        className={`${selectClass} flex-1`}
+                                        value={textSettings.font}
+                                        onChange={(e) => setTextSettings({ ...textSettings, font: e.target.value })}
+                                    >
+                                        {Object.keys(TEXT_FONTS).map(font => <option key={font} value={font}>{font}</option>)}
+                                    </select>
+                                    <button
+                                        onClick={() => setTextSettings({ ...textSettings, depth: textSettings.depth > 0 ? 0 : TEXT_EXTRUDE_DEPTH })}
+                                        className={`px-1.5 rounded text-[10px] font-mono transition-colors ${textSettings.depth > 0 ? 'text-white bg-white/10' : 'text-gray-500 hover:text-white'}`}
+                                    >
+                                        EXTRUDE
+                                    </button>
+                                </div>
                             </div>
                         )}
                     </div>
                 ))}
+
+                {/* Saved Air Drawings */}
+                {drawings.map((drawing) => {
+                    const isActive = currentShape === ParticleShape.DRAWING && activeDrawingId === drawing.id;
+                    return (
+                        <div key={drawing.id} className="relative group">
+                            <button
+                                onClick={() => selectDrawing(drawing.id)}
+                                className={`w-full px-3 py-2 text-left transition-all duration-300 rounded border-l-2 ${
+                                    isActive ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white hover:bg-white/5 border-transparent'
+                                }`}
+                                style={{ borderColor: isActive ? currentColor : 'transparent' }}
+                            >
+                                <span className="text-[10px] md:text-xs font-bold tracking-widest flex items-center gap-2 truncate pr-5">
+                                    <PenTool size={10} className="shrink-0" /> {drawing.name}
+                                </span>
+                            </button>
+                            <button
+                                onClick={() => deleteDrawing(drawing.id)}
+                                className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                                title="Delete drawing"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    );
+                })}
+                <button
+                    onClick={onStartAirDrawing}
+                    disabled={!videoEnabled && !mouseEnabled && !isReplaying}
+                    className="flex items-center justify-center gap-1 p-1.5 rounded text-[10px] font-mono text-gray-400 hover:text-white hover:bg-white/5 disabled:opacity-30"
+                >
+                    <PenTool size={10} /> AIR DRAW
+                </button>
+                <button
+                    onClick={() => formationInputRef.current?.click()}
+                    className="flex items-center justify-center gap-1 p-1.5 rounded text-[10px] font-mono text-gray-400 hover:text-white hover:bg-white/5"
+                    title="Or drop a file anywhere on the page"
+                >
+                    <Upload size={10} /> IMPORT MODEL / IMAGE
+                </button>
+                <input
+                    ref={formationInputRef}
+                    type="file"
+                    accept={FORMATION_FILE_TYPES}
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importFormation(file);
+                        e.target.value = '';
+                    }}
+                />
+                {importStatus && (
+                    <div className="text-[9px] font-mono text-yellow-500 px-1 break-words">{importStatus}</div>
+                )}
+                <button
+                    onClick={() => setSourceColors(!sourceColors)}
+                    className={`p-1.5 rounded text-[10px] font-mono transition-colors ${sourceColors ? 'text-white' : 'text-gray-500 hover:text-white'}`}
+                    title="Use colours from imported formations instead of the theme"
+                >
+                    SOURCE COLOURS: {sourceColors ? 'ON' : 'OFF'}
+                </button>
+                <div className="grid grid-cols-2 gap-1">
+                    <button
+                        onClick={() => setImageSampling({ ...imageSampling, mode: imageSampling.mode === 'BRIGHTNESS' ? 'ALPHA' : 'BRIGHTNESS' })}
+                        className="p-1.5 rounded text-[10px] font-mono text-gray-400 hover:text-white hover:bg-white/5"
+                        title="Images: fill bright pixels or every opaque pixel"
+                    >
+                        {imageSampling.mode}
+                    </button>
+                    <button
+                        onClick={() => setImageSampling({ ...imageSampling, relief: imageSampling.relief > 0 ? 0 : IMAGE_RELIEF_DEPTH })}
+                        className={`p-1.5 rounded text-[10px] font-mono transition-colors ${imageSampling.relief > 0 ? 'text-white' : 'text-gray-500 hover:text-white'}`}
+                        title="Images: push bright pixels forward"
+                    >
+                        RELIEF: {imageSampling.relief > 0 ? 'ON' : 'OFF'}
+                    </button>
+                </div>
+
+                {/* Transition between formations */}
+                <div className="flex flex-col gap-1 mt-1 px-1">
+                    <div className="flex justify-between text-[9px] font-mono text-gray-500 tracking-widest">
+                        <span>TRANSITION</span>
+                        {transition.style !== 'DIRECT' && <span style={{ color: currentColor }}>{transition.duration.toFixed(1)}S</span>}
+                    </div>
+                    <div className="flex gap-1">
+                        <select
+                            className={`${selectClass} flex-1`}
+                            value={transition.style}
+                            onChange={(e) => setTransition({ ...transition, style: e.target.value as TransitionStyle })}
+                        >
+                            {TRANSITION_STYLES.map(style => <option key={style} value={style}>{style.replace('_', ' ')}</option>)}
+                        </select>
+                        <select
+                            className={`${selectClass} flex-1`}
+                            value={transition.easing}
+                            disabled={transition.style === 'DIRECT'}
+                            onChange={(e) => setTransition({ ...transition, easing: e.target.value as Easing })}
+                        >
+                            {EASINGS.map(easing => <option key={easing} value={easing}>{easing.replace(/_/g, ' ')}</option>)}
+                        </select>
+                    </div>
+                    {transition.style !== 'DIRECT' && (
+                        <input
+                            type="range" min="0.3" max="5" step="0.1"
+                            value={transition.duration}
+                            onChange={(e) => setTransition({ ...transition, duration: Number(e.target.value) })}
+                            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+                            style={{ accentColor: currentColor }}
+                            title="Duration"
+                        />
+                    )}
+                </div>
              </div>
           </div>
 
+          {/* Gesture Bindings */}
+          <BindingsPanel bindings={bindings} setBindings={setBindings} currentColor={currentColor} />
+
+          {/* Force Fields */}
+          <ForceFieldsPanel fields={forceFields} setFields={setForceFields} currentColor={currentColor} />
+
         </div>
 
       </div>
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { SmoothingConfig, BindingConfig, HandPose, HandCalibration, CameraSettings, ImageSampling, TextSettings, TransitionSettings, TransitionStyle, Easing, ForceField, ForceFieldKind, ParticleGroup, PhysicsSettings, GroupLayout, ParticleShape, ColorSettings, ColorMode, GradientAxis, TrailSettings, QualitySettings } from './types';
 
 export const COLORS = {
   background: '#050505',
@@ -18,11 +19,181 @@ export const COLOR_PALETTES = {
   PURPLE: '#a855f7'
 };
 
+export const COLOR_MODES: ColorMode[] = ['SOLID', 'GRADIENT', 'RAINBOW', 'DUAL_TONE', 'SPECTRUM'];
+export const GRADIENT_AXES: GradientAxis[] = ['X', 'Y', 'Z', 'RADIUS'];
+
+export const DEFAULT_COLORING: ColorSettings = {
+  mode: 'SOLID',
+  stops: [
+    { position: 0, color: COLOR_PALETTES.CYAN },
+    { position: 0.5, color: COLOR_PALETTES.PURPLE },
+    { position: 1, color: COLOR_PALETTES.MAGENTA },
+  ],
+  axis: 'Y',
+  secondary: COLOR_PALETTES.GOLD,
+};
+
+// Frequency bands SPECTRUM colouring splits the audio into
+export const SPECTRUM_BANDS = 16;
+
 export const PARTICLE_COUNTS = {
   CORE: 75000,
   AURA: 4000,
 };
 
+// Seeds formations and physics noise (see services/simulation.ts)
+export const SIMULATION_SEED = 1;
+
+export const DEFAULT_QUALITY: QualitySettings = {
+  auto: false,
+  targetFps: 50,
+};
+
+export const TARGET_FPS_OPTIONS = [30, 45, 50, 60];
+
+export const DEFAULT_SMOOTHING: SmoothingConfig = {
+  enabled: true,
+  x: { minCutoff: 1.0, beta: 0.8, dCutoff: 1.0 },
+  y: { minCutoff: 1.0, beta: 0.8, dCutoff: 1.0 },
+  z: { minCutoff: 0.5, beta: 0.3, dCutoff: 1.0 },
+  handSpread: { minCutoff: 0.8, beta: 0.4, dCutoff: 1.0 },
+  clenchHysteresis: 0.02,
+};
+
+// Uncalibrated thresholds (an average hand ~50cm from a 640x480 webcam)
+export const DEFAULT_CALIBRATION: HandCalibration = {
+  clenchDistance: 0.15,
+  raiseOffset: 0.1,
+  spreadMin: 1.0,
+  spreadMax: 1.9,
+  region: { minX: 0, maxX: 1, minY: 0, maxY: 1 },
+};
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  width: 640,
+  height: 480,
+  frameRate: 30,
+};
+
+export const CAMERA_RESOLUTIONS: [number, number][] = [[320, 240], [640, 480], [1280, 720]];
+export const CAMERA_FRAME_RATES = [15, 30, 60];
+
+export const TRANSITION_STYLES: TransitionStyle[] = ['DIRECT', 'EXPLODE', 'SWIRL', 'CASCADE_INDEX', 'CASCADE_HEIGHT', 'DISSOLVE', 'CURVE'];
+export const EASINGS: Easing[] = ['LINEAR', 'EASE_IN', 'EASE_OUT', 'EASE_IN_OUT'];
+
+export const DEFAULT_TRANSITION: TransitionSettings = {
+  style: 'DIRECT',
+  duration: 1.5,
+  easing: 'EASE_IN_OUT',
+};
+
+// Starting point for each kind of force field (ADD FIELD)
+export const FORCE_FIELD_PRESETS: Record<ForceFieldKind, Omit<ForceField, 'id'>> = {
+  CURL_NOISE: { kind: 'CURL_NOISE', enabled: true, strength: 0.004, position: [0, 0, 0], direction: [0, 1, 0], radius: 6, speed: 0.3, audioBand: 'TREBLE', audioGain: 2 },
+  VORTEX: { kind: 'VORTEX', enabled: true, strength: 0.002, position: [0, 0, 0], direction: [0, 1, 0], radius: 0, speed: 0, audioBand: 'BASS', audioGain: 1.5 },
+  GRAVITY_WELL: { kind: 'GRAVITY_WELL', enabled: true, strength: 0.01, position: [8, 0, 0], direction: [0, 1, 0], radius: 4, speed: 0.5, audioBand: 'NONE', audioGain: 0 },
+  WIND: { kind: 'WIND', enabled: true, strength: 0.004, position: [0, 0, 0], direction: [1, 0, 0], radius: 0, speed: 0.2, audioBand: 'MID', audioGain: 1 },
+  DRAG: { kind: 'DRAG', enabled: true, strength: 0.03, position: [0, 0, 0], direction: [0, 1, 0], radius: 0, speed: 0, audioBand: 'NONE', audioGain: 0 },
+};
+
+// Gentle flow plus a slow spin, so formations drift even when nobody is interacting
+export const DEFAULT_FORCE_FIELDS: ForceField[] = [
+  { id: 'default-curl', ...FORCE_FIELD_PRESETS.CURL_NOISE },
+  { id: 'default-vortex', ...FORCE_FIELD_PRESETS.VORTEX },
+];
+
+// CSS font stacks for the TEXT formation. The browser falls back per glyph,
+// so non-Latin scripts still render with any of them.
+export const TEXT_FONTS: Record<string, string> = {
+  ORBITRON: '"Orbitron", sans-serif',
+  SANS: 'sans-serif',
+  SERIF: 'serif',
+  MONO: 'monospace',
+  SCRIPT: 'cursive',
+};
+
+export const DEFAULT_TEXT_SETTINGS: TextSettings = {
+  text: 'A',
+  font: 'ORBITRON',
+  depth: 0,
+};
+
+// Extrusion used by the EXTRUDE toggle
+export const TEXT_EXTRUDE_DEPTH = 0.3;
+
+export const DEFAULT_IMAGE_SAMPLING: ImageSampling = {
+  mode: 'BRIGHTNESS',
+  relief: 0,
+};
+
+// Relief depth used by the RELIEF toggle
+export const IMAGE_RELIEF_DEPTH = 0.4;
+
+export const DEFAULT_TRAILS: TrailSettings = {
+  enabled: false,
+  length: 0.4,
+  fade: 0.7,
+  audioGain: 1.5,
+};
+
+export const DEFAULT_PHYSICS: PhysicsSettings = {
+  attraction: 0.03,
+  damping: 0.92,
+  noise: 0.02,
+};
+
+export const DEFAULT_GROUP_LAYOUT: GroupLayout = {
+  position: [0, 0, 0],
+  scale: 1,
+  orbit: 0,
+};
+
+// The scene starts with one group, the original single hologram
+export const DEFAULT_GROUP: ParticleGroup = {
+  id: 'main',
+  name: 'MAIN',
+  seed: SIMULATION_SEED,
+  shape: ParticleShape.SPHERE,
+  color: COLORS.primary,
+  coloring: DEFAULT_COLORING,
+  count: PARTICLE_COUNTS.CORE,
+  text: DEFAULT_TEXT_SETTINGS,
+  numIndex: 1,
+  drawingId: null,
+  layout: DEFAULT_GROUP_LAYOUT,
+  physics: DEFAULT_PHYSICS,
+  aura: true,
+};
+
+// Groups added later start smaller and off to the side
+export const ADDED_GROUP_COUNT = 30000;
+export const ADDED_GROUP_LAYOUT: GroupLayout = {
+  position: [14, 0, -6],
+  scale: 0.5,
+  orbit: 0.2,
+};
+
+// Reproduces the original hardwired behaviour, plus a thumbs-up snapshot and depth dolly
+export const DEFAULT_BINDINGS: BindingConfig = {
+  triggers: [
+    { id: 'thumbs-up-snapshot', trigger: { kind: 'POSE_HOLD', pose: HandPose.THUMBS_UP, durationMs: 1000 }, command: 'SNAPSHOT', value: '' },
+  ],
+  continuous: [
+    { id: 'x-rotate-y', signal: 'X', param: 'ROTATE_Y', gain: 1.5 },
+    { id: 'y-rotate-x', signal: 'Y', param: 'ROTATE_X', gain: -1.5 },
+    { id: 'spread-scale', signal: 'SPREAD', param: 'SCALE', gain: 1.0 },
+    { id: 'z-dolly', signal: 'Z', param: 'DOLLY', gain: -1.0 }, // Push toward camera sends the hologram away
+  ],
+};
+
+// Palm and fingertips push particles away (open hand) or pull them in (fist).
+// Radius in world units, strength = velocity added per frame at the centre of the field.
+export const HAND_FORCE = {
+  palm: { radius: 4, strength: 0.08 },
+  fingertip: { radius: 1.5, strength: 0.04 },
+};
+
 export const CAMERA_CONFIG = {
   fov: 45,
   position: [0, 0, 30] as [number, number, number],
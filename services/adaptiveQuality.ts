@@ -0,0 +1,81 @@
+import { QualityLevel } from '../types';
+
+const WINDOW = 1; // Seconds of frames averaged per decision
+const SETTLE = 2; // Seconds ignored after a change (resizes hitch for a frame or two)
+const DOWN_BELOW = 0.85; // Step down when a window averages under this share of the target
+const UP_ABOVE = 0.95; // Step up after STABLE_WINDOWS windows over this share
+const STABLE_WINDOWS = 5;
+const MAX_FRAME = 0.5; // Longer frames (hidden tab, debugger) are not measured
+
+// Highest quality first: pixel ratio gives way before particles do
+export const qualityLevels = (deviceDpr: number): QualityLevel[] => {
+  const top = Math.min(Math.max(deviceDpr, 1), 2);
+  const ladder: QualityLevel[] = [
+    { dpr: top, countScale: 1 },
+    { dpr: 1, countScale: 1 },
+    { dpr: 1, countScale: 0.75 },
+    { dpr: 0.75, countScale: 0.75 },
+    { dpr: 0.75, countScale: 0.5 },
+    { dpr: 0.5, countScale: 0.5 },
+    { dpr: 0.5, countScale: 0.35 },
+    { dpr: 0.5, countScale: 0.25 },
+  ];
+  // On 1x screens the first two rungs are the same
+  return ladder.filter((level, i) => i === 0 || level.dpr !== ladder[i - 1].dpr || level.countScale !== ladder[i - 1].countScale);
+};
+
+/**
+ * Watches frame times and walks the quality ladder to hold a target frame rate.
+ * Drops a level as soon as a window runs slow, climbs back only after several good ones,
+ * so it doesn't oscillate at the edge.
+ */
+export class QualityGovernor {
+  private readonly levels: QualityLevel[];
+  private level = 0;
+  private elapsed = 0;
+  private frames = 0;
+  private settle = 0;
+  private stable = 0;
+
+  constructor(levels: QualityLevel[]) {
+    this.levels = levels;
+  }
+
+  public get current(): QualityLevel {
+    return this.levels[this.level];
+  }
+
+  // Feeds one frame. Returns the new level when it changes.
+  public update(dt: number, targetFps: number): QualityLevel | null {
+    if (dt > MAX_FRAME) return null;
+    if (this.settle > 0) {
+      this.settle -= dt;
+      return null;
+    }
+    this.elapsed += dt;
+    this.frames++;
+    if (this.elapsed < WINDOW) return null;
+
+    const fps = this.frames / this.elapsed;
+    this.elapsed = 0;
+    this.frames = 0;
+
+    let next = this.level;
+    if (fps < targetFps * DOWN_BELOW) {
+      this.stable = 0;
+      next = Math.min(this.level + 1, this.levels.length - 1);
+    } else if (fps > targetFps * UP_ABOVE) {
+      if (++this.stable >= STABLE_WINDOWS) {
+        this.stable = 0;
+        next = Math.max(this.level - 1, 0);
+      }
+    } else {
+      this.stable = 0;
+    }
+    if (next === this.level) return null;
+
+    this.level = next;
+    this.settle = SETTLE;
+    return this.current;
+  }
+}
@@ -0,0 +1,157 @@
+import { Drawing, DrawingPoint, HandData, HandPose } from '../types';
+import { Random } from './random';
+
+const STORAGE_KEY = 'jarvis.drawings';
+
+// Ignore fingertip movement smaller than this (screen units) to keep strokes light
+const MIN_POINT_SPACING = 0.01;
+// Strokes with fewer points are accidental pinches
+const MIN_STROKE_POINTS = 3;
+// Hand depth range mapped onto the drawing's z axis (fraction of its size)
+const DEPTH_SCALE = 0.5;
+// Thickness of the sampled line, as a fraction of the formation radius
+const STROKE_JITTER = 0.03;
+
+// --- Persistence ---
+
+export const loadDrawings = (): Drawing[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Failed to load drawings", e);
+    return [];
+  }
+};
+
+export const saveDrawings = (drawings: Drawing[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(drawings));
+  } catch (e) {
+    console.warn("Failed to save drawings", e);
+  }
+};
+
+// --- Capture ---
+
+/**
+ * Records index fingertip strokes from the hand stream.
+ * The pen is down while the primary hand pinches or clenches.
+ */
+export class AirDrawingRecorder {
+  private strokes: DrawingPoint[][] = [];
+  private current: DrawingPoint[] | null = null;
+  // Latest fingertip, for the on-screen cursor
+  public cursor: { x: number; y: number; penDown: boolean } | null = null;
+
+  public get strokeList(): readonly DrawingPoint[][] {
+    return this.strokes;
+  }
+
+  public update(data: HandData) {
+    const hand = data.hands[0];
+    if (!data.isDetected || !hand) {
+      this.cursor = null;
+      this.current = null;
+      return;
+    }
+
+    const tip = hand.fingertips[1] ?? hand; // Index fingertip
+    const penDown = hand.isClenched || hand.pose === HandPose.PINCH;
+    this.cursor = { x: tip.x, y: tip.y, penDown };
+
+    if (!penDown) {
+      this.current = null;
+      return;
+    }
+
+    // Screen units: x stretched by the aspect ratio so circles stay round
+    const point = { x: tip.x * (window.innerWidth / window.innerHeight), y: tip.y, z: hand.z * DEPTH_SCALE };
+    if (!this.current) {
+      this.current = [point];
+      this.strokes.push(this.current);
+      return;
+    }
+    const last = this.current[this.current.length - 1];
+    if (Math.hypot(point.x - last.x, point.y - last.y, point.z - last.z) >= MIN_POINT_SPACING) {
+      this.current.push(point);
+    }
+  }
+
+  public undo() {
+    this.strokes.pop();
+    this.current = null;
+  }
+
+  public clear() {
+    this.strokes = [];
+    this.current = null;
+  }
+
+  /**
+   * Turns the recorded strokes into a Drawing, centred and fitted into -1..1.
+   * Returns null when nothing usable was drawn.
+   */
+  public finish(name: string): Drawing | null {
+    const strokes = this.strokes.filter(s => s.length >= MIN_STROKE_POINTS);
+    if (strokes.length === 0) return null;
+
+    const all = strokes.flat();
+    const minX = Math.min(...all.map(p => p.x)), maxX = Math.max(...all.map(p => p.x));
+    const minY = Math.min(...all.map(p => p.y)), maxY = Math.max(...all.map(p => p.y));
+    const minZ = Math.min(...all.map(p => p.z)), maxZ = Math.max(...all.map(p => p.z));
+    const cx = (minX + maxX) / 2, cy = (minY + maxY) / 2, cz = (minZ + maxZ) / 2;
+    const halfExtent = Math.max(maxX - minX, maxY - minY, 1e-3) / 2;
+
+    return {
+      id: Math.random().toString(36).slice(2, 10),
+      name: name.trim() || `DRAWING ${new Date().toLocaleTimeString()}`,
+      createdAt: new Date().toISOString(),
+      strokes: strokes.map(s => s.map(p => ({
+        x: (p.x - cx) / halfExtent,
+        y: (p.y - cy) / halfExtent,
+        z: (p.z - cz) / halfExtent,
+      }))),
+    };
+  }
+}
+
+// --- Sampling ---
+
+/**
+ * Spreads particles evenly along the strokes of a drawing.
+ * Returns the same xyz Float32Array layout as the built-in shape generators.
+ */
+export const sampleDrawing = (drawing: Drawing, pCount: number, radius = 10, random: Random = Math.random): Float32Array => {
+  const positions = new Float32Array(pCount * 3);
+
+  // Cumulative length over every segment of every stroke
+  const segments: { a: DrawingPoint; b: DrawingPoint; end: number }[] = [];
+  let total = 0;
+  for (const stroke of drawing.strokes) {
+    for (let i = 1; i < stroke.length; i++) {
+      const a = stroke[i - 1], b = stroke[i];
+      total += Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+      segments.push({ a, b, end: total });
+    }
+  }
+  if (segments.length === 0 || total === 0) return positions;
+
+  const jitter = radius * STROKE_JITTER;
+  let seg = 0;
+  for (let i = 0; i < pCount; i++) {
+    // Evenly spaced along the total length, so the walk through segments only moves forward
+    const d = ((i + 0.5) / pCount) * total;
+    while (seg < segments.length - 1 && segments[seg].end < d) seg++;
+    const { a, b, end } = segments[seg];
+    const length = Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+    const t = length > 0 ? 1 - (end - d) / length : 0;
+
+    positions[i * 3] = (a.x + (b.x - a.x) * t) * radius + (random() - 0.5) * jitter;
+    positions[i * 3 + 1] = (a.y + (b.y - a.y) * t) * radius + (random() - 0.5) * jitter;
+    positions[i * 3 + 2] = (a.z + (b.z - a.z) * t) * radius + (random() - 0.5) * jitter;
+  }
+  return positions;
+};
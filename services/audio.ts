@@ -55,6 +55,24 @@ export class AudioService {
     return { bass, mid, treble, average };
   }
 
+  // Fills `out` with the levels (0 - 1) of out.length log-spaced bands, low to high,
+  // from the bins read by the last getFrequencyData() call
+  public getSpectrum(out: Float32Array): Float32Array {
+    if (!this.isRunning || !this.dataArray) return out.fill(0);
+
+    const bins = this.dataArray.length;
+    // Each band starts where the previous one ended, so the narrow low bands don't share bins
+    let lo = 1;
+    for (let b = 0; b < out.length; b++) {
+      const hi = Math.min(bins, Math.max(lo + 1, Math.floor(Math.pow(bins, (b + 1) / out.length))));
+      let sum = 0;
+      for (let k = lo; k < hi; k++) sum += this.dataArray[k];
+      out[b] = hi > lo ? sum / (hi - lo) / 255 : 0;
+      lo = hi;
+    }
+    return out;
+  }
+
   public stop() {
     this.isRunning = false;
     if (this.stream) this.stream.getTracks().forEach(t => t.stop());
@@ -0,0 +1,134 @@
+import { ParticleShape, ShapeDefinition, ShapeGenerator } from '../types';
+import { sampleDrawing } from './airDrawing';
+import { generateTextTargets } from './textShape';
+
+// Calls point(i) for every particle and packs the results into an xyz array
+const fill = (count: number, point: (i: number) => [number, number, number]) => {
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const [x, y, z] = point(i);
+    positions[i * 3] = x;
+    positions[i * 3 + 1] = y;
+    positions[i * 3 + 2] = z;
+  }
+  return positions;
+};
+
+// --- Geometry ---
+
+const sphere: ShapeGenerator = (count, radius) => fill(count, (i) => {
+  const phi = Math.acos(-1 + (2 * i) / count);
+  const theta = Math.sqrt(count * Math.PI) * phi;
+  return [
+    radius * Math.cos(theta) * Math.sin(phi),
+    radius * Math.sin(theta) * Math.sin(phi),
+    radius * Math.cos(phi),
+  ];
+});
+
+const cube: ShapeGenerator = (count, radius, { random }) => fill(count, () => [
+  (random() - 0.5) * radius * 1.5,
+  (random() - 0.5) * radius * 1.5,
+  (random() - 0.5) * radius * 1.5,
+]);
+
+const torus: ShapeGenerator = (count, radius, { random }) => fill(count, () => {
+  const u = random() * Math.PI * 2;
+  const v = random() * Math.PI * 2;
+  const tubeRadius = radius * 0.3;
+  return [
+    (radius + tubeRadius * Math.cos(v)) * Math.cos(u),
+    (radius + tubeRadius * Math.cos(v)) * Math.sin(u),
+    tubeRadius * Math.sin(v),
+  ];
+});
+
+const galaxy: ShapeGenerator = (count, radius, { random }) => fill(count, (i) => {
+  const armCount = 3;
+  const spin = i / count * armCount * Math.PI * 2;
+  const r = (i / count) * radius;
+  const randomOffset = (random() - 0.5) * (radius * 0.2);
+  return [
+    r * Math.cos(spin) + randomOffset,
+    (random() - 0.5) * (r * 0.2), // Flat galaxy
+    r * Math.sin(spin) + randomOffset,
+  ];
+});
+
+const dna: ShapeGenerator = (count, radius, { random }) => fill(count, (i) => {
+  const strands = 2;
+  const strandIdx = i % strands;
+  const t = (i / count) * Math.PI * 10;
+  const height = (i / count) * radius * 2.5 - radius * 1.25;
+  const r = radius * 0.5;
+  const offset = strandIdx * Math.PI;
+  return [
+    r * Math.cos(t + offset) + (random() - 0.5),
+    height,
+    r * Math.sin(t + offset) + (random() - 0.5),
+  ];
+});
+
+const saturn: ShapeGenerator = (count, radius, { random }) => fill(count, (i) => {
+  if (i < count * 0.7) {
+    const phi = Math.acos(-1 + (2 * i) / (count * 0.7));
+    const theta = Math.sqrt((count * 0.7) * Math.PI) * phi;
+    const r = radius * 0.6;
+    return [r * Math.cos(theta) * Math.sin(phi), r * Math.sin(theta) * Math.sin(phi), r * Math.cos(phi)];
+  }
+  const theta = random() * Math.PI * 2;
+  const rMin = radius * 0.8;
+  const rMax = radius * 1.5;
+  const r = Math.sqrt(random()) * (rMax - rMin) + rMin;
+  return [r * Math.cos(theta), (random() - 0.5) * 0.2, r * Math.sin(theta)];
+});
+
+const pyramid: ShapeGenerator = (count, radius, { random }) => fill(count, () => {
+  let a = random();
+  let b = random();
+  let c = random();
+  if (a + b > 1) { a = 1 - a; b = 1 - b; }
+  if (b + c > 1) { b = 1 - b; c = 1 - c; }
+  if (a + b + c > 1) { a = 1 - a; b = 1 - b; c = 1 - c; }
+  const d = 1 - a - b - c;
+  const s = radius * 1.5;
+  const v1 = [s, s, s], v2 = [-s, -s, s], v3 = [-s, s, -s], v4 = [s, -s, -s];
+  return [
+    a * v1[0] + b * v2[0] + c * v3[0] + d * v4[0],
+    a * v1[1] + b * v2[1] + c * v3[1] + d * v4[1],
+    a * v1[2] + b * v2[2] + c * v3[2] + d * v4[2],
+  ];
+});
+
+const bigBang: ShapeGenerator = (count, radius, { random }) => fill(count, () => {
+  const r = random() * radius * 2;
+  const theta = random() * Math.PI * 2;
+  const phi = Math.acos(2 * random() - 1);
+  return [r * Math.sin(phi) * Math.cos(theta), r * Math.sin(phi) * Math.sin(theta), r * Math.cos(phi)];
+});
+
+// --- Registry Entries ---
+
+export const BUILTIN_SHAPES: ShapeDefinition[] = [
+  { name: ParticleShape.SPHERE, label: 'SPHERE', voiceAliases: ['BALL', 'GLOBE'], generator: sphere },
+  { name: ParticleShape.CUBE, label: 'CUBE', voiceAliases: ['BOX'], generator: cube },
+  { name: ParticleShape.TORUS, label: 'TORUS', voiceAliases: ['DONUT', 'RING'], generator: torus },
+  { name: ParticleShape.GALAXY, label: 'GALAXY', voiceAliases: ['SPIRAL'], generator: galaxy },
+  { name: ParticleShape.BIG_BANG, label: 'BIG_BANG', voiceAliases: ['BIG BANG', 'EXPLODE'], generator: bigBang },
+  { name: ParticleShape.DNA, label: 'DNA', voiceAliases: ['HELIX'], generator: dna },
+  { name: ParticleShape.SATURN, label: 'SATURN', voiceAliases: ['PLANET'], generator: saturn },
+  { name: ParticleShape.PYRAMID, label: 'PYRAMID', voiceAliases: ['TETRAHEDRON'], generator: pyramid },
+  {
+    name: ParticleShape.TEXT, label: 'TEXT', voiceAliases: [],
+    generator: (count, radius, { text, random }) => generateTextTargets(text.text, count, radius, text, random),
+  },
+  {
+    name: ParticleShape.NUMBER, label: 'NUMBER', voiceAliases: [],
+    generator: (count, radius, { numIndex, text, random }) => generateTextTargets(String(numIndex), count, radius, text, random),
+  },
+  {
+    // Without a selected drawing, falls back to the BIG_BANG cloud
+    name: ParticleShape.DRAWING, label: 'DRAWING', voiceAliases: [], hidden: true,
+    generator: (count, radius, params) => params.drawing ? sampleDrawing(params.drawing, count, radius, params.random) : bigBang(count, radius, params),
+  },
+];
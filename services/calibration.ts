@@ -0,0 +1,98 @@
+import { HandCalibration, Landmark } from '../types';
+import { DEFAULT_CALIBRATION } from '../constants';
+import { measureHand } from './handTracking';
+
+const STORAGE_KEY = 'jarvis.handCalibration';
+
+// Fewer frames than this per step is not a reliable sample
+const MIN_SAMPLES = 10;
+// Fingertips must be this many palm sizes above the wrist to count as raised
+const RAISE_RATIO = 0.67;
+
+// --- Persistence ---
+
+export const loadCalibration = (): HandCalibration => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_CALIBRATION;
+    return { ...DEFAULT_CALIBRATION, ...JSON.parse(raw) };
+  } catch (e) {
+    console.warn("Failed to load hand calibration, using defaults", e);
+    return DEFAULT_CALIBRATION;
+  }
+};
+
+export const saveCalibration = (calibration: HandCalibration) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(calibration));
+  } catch (e) {
+    console.warn("Failed to save hand calibration", e);
+  }
+};
+
+// --- Derivation ---
+
+// Raw landmarks captured during each wizard step
+export interface CalibrationSamples {
+  open: Landmark[][];
+  fist: Landmark[][];
+  reach: Landmark[][];
+}
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(Math.floor(p * sorted.length), sorted.length - 1)];
+};
+
+/**
+ * Derives per-user thresholds from the wizard samples.
+ * Throws with a user-facing message when the samples can't tell open from closed.
+ */
+export const deriveCalibration = (samples: CalibrationSamples): HandCalibration => {
+  if (samples.open.length < MIN_SAMPLES || samples.fist.length < MIN_SAMPLES) {
+    throw new Error("Hand not seen long enough. Keep it in view and try again.");
+  }
+
+  // Raised-finger test scales with the user's hand at their usual distance
+  const palmSize = percentile(samples.open.map(l => measureHand(l, DEFAULT_CALIBRATION).palmSize), 0.5);
+  const raiseOffset = palmSize * RAISE_RATIO;
+
+  const measure = (l: Landmark[]) => measureHand(l, { ...DEFAULT_CALIBRATION, raiseOffset });
+  const open = samples.open.map(measure);
+  const fist = samples.fist.map(measure);
+
+  // Clench threshold halfway between the most open fist and the most closed open palm
+  const fistHigh = percentile(fist.map(m => m.openness), 0.9);
+  const openLow = percentile(open.map(m => m.openness), 0.1);
+  if (fistHigh >= openLow) {
+    throw new Error("Open palm and fist looked too similar. Spread your fingers wide and close the fist fully.");
+  }
+
+  const spreadMin = percentile(fist.map(m => m.spreadRatio), 0.5);
+  const spreadMax = percentile(open.map(m => m.spreadRatio), 0.5);
+  if (spreadMax - spreadMin < 0.2) {
+    throw new Error("Finger spread barely changed between open palm and fist. Try again.");
+  }
+
+  // Usable region: where the palm actually went, ignoring outliers
+  let region = DEFAULT_CALIBRATION.region;
+  if (samples.reach.length >= MIN_SAMPLES) {
+    const reach = samples.reach.map(measure);
+    const xs = reach.map(m => m.palmX);
+    const ys = reach.map(m => m.palmY);
+    const candidate = {
+      minX: percentile(xs, 0.02), maxX: percentile(xs, 0.98),
+      minY: percentile(ys, 0.02), maxY: percentile(ys, 0.98),
+    };
+    // A tiny region would turn jitter into huge jumps; keep the default instead
+    if (candidate.maxX - candidate.minX > 0.2 && candidate.maxY - candidate.minY > 0.2) region = candidate;
+  }
+
+  return {
+    clenchDistance: (fistHigh + openLow) / 2,
+    raiseOffset,
+    spreadMin,
+    spreadMax,
+    region,
+  };
+};
@@ -0,0 +1,43 @@
+import { CameraDevice, CameraSettings } from '../types';
+import { DEFAULT_CAMERA_SETTINGS } from '../constants';
+
+const STORAGE_KEY = 'jarvis.cameraSettings';
+
+// --- Persistence ---
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_CAMERA_SETTINGS;
+    return { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(raw) };
+  } catch (e) {
+    console.warn("Failed to load camera settings, using defaults", e);
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Failed to save camera settings", e);
+  }
+};
+
+// --- Devices ---
+
+// Labels are only filled in once the page has camera permission
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(d => d.kind === 'videoinput' && d.deviceId)
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Camera ${i + 1}` }));
+};
+
+export const buildVideoConstraints = (settings: CameraSettings): MediaTrackConstraints => ({
+  width: { ideal: settings.width },
+  height: { ideal: settings.height },
+  frameRate: { ideal: settings.frameRate },
+  ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: 'user' }),
+});
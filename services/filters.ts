@@ -0,0 +1,59 @@
+import { OneEuroParams } from '../types';
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+/**
+ * One Euro filter: an adaptive low-pass whose cutoff rises with signal speed.
+ * Heavy smoothing while the hand is still, little lag while it moves fast.
+ */
+export class OneEuroFilter {
+  private params: OneEuroParams;
+  private prevValue: number | null = null;
+  private prevDerivative: number = 0;
+  private prevTimestamp: number = 0;
+
+  constructor(params: OneEuroParams) {
+    this.params = params;
+  }
+
+  public setParams(params: OneEuroParams) {
+    this.params = params;
+  }
+
+  // timestamp in ms
+  public filter(value: number, timestamp: number): number {
+    if (this.prevValue === null) {
+      this.prevValue = value;
+      this.prevTimestamp = timestamp;
+      return value;
+    }
+
+    const dt = (timestamp - this.prevTimestamp) / 1000;
+    // Duplicate or out-of-order frame: nothing to filter against
+    if (dt <= 0) return this.prevValue;
+
+    const { minCutoff, beta, dCutoff } = this.params;
+
+    const derivative = (value - this.prevValue) / dt;
+    const aD = smoothingFactor(dCutoff, dt);
+    const smoothedDerivative = aD * derivative + (1 - aD) * this.prevDerivative;
+
+    const cutoff = minCutoff + beta * Math.abs(smoothedDerivative);
+    const a = smoothingFactor(cutoff, dt);
+    const smoothed = a * value + (1 - a) * this.prevValue;
+
+    this.prevValue = smoothed;
+    this.prevDerivative = smoothedDerivative;
+    this.prevTimestamp = timestamp;
+    return smoothed;
+  }
+
+  public reset() {
+    this.prevValue = null;
+    this.prevDerivative = 0;
+    this.prevTimestamp = 0;
+  }
+}
@@ -0,0 +1,99 @@
+import { AudioData, AudioBand, ForceField } from '../types';
+import { DEFAULT_FORCE_FIELDS, FORCE_FIELD_PRESETS } from '../constants';
+import { FIELD_KINDS, FIELD_STRIDE, MAX_FORCE_FIELDS } from './particlePhysics';
+
+const STORAGE_KEY = 'jarvis.forceFields';
+
+// --- Persistence ---
+
+const AUDIO_BANDS: AudioBand[] = ['NONE', 'BASS', 'MID', 'TREBLE'];
+
+const isVector = (v: unknown) => Array.isArray(v) && v.length === 3 && v.every(Number.isFinite);
+
+// Settings missing from older saves come from the kind's preset. Null when the entry still
+// doesn't fit (unknown kind, wrong types), so it can't feed NaN into the physics step.
+const restoreField = (stored: unknown): ForceField | null => {
+  if (typeof stored !== 'object' || stored === null) return null;
+  const { id, kind } = stored as Partial<ForceField>;
+  if (typeof id !== 'string' || !kind || !Object.keys(FORCE_FIELD_PRESETS).includes(kind)) return null;
+  const field: ForceField = { ...FORCE_FIELD_PRESETS[kind], ...stored, id };
+  const valid = typeof field.enabled === 'boolean'
+    && AUDIO_BANDS.includes(field.audioBand)
+    && isVector(field.position)
+    && isVector(field.direction)
+    && [field.strength, field.radius, field.speed, field.audioGain].every(Number.isFinite);
+  return valid ? field : null;
+};
+
+export const loadForceFields = (): ForceField[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_FORCE_FIELDS;
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return DEFAULT_FORCE_FIELDS;
+    return parsed.map(restoreField).filter((f): f is ForceField => f !== null);
+  } catch (e) {
+    console.warn("Failed to load force fields, using defaults", e);
+    return DEFAULT_FORCE_FIELDS;
+  }
+};
+
+export const saveForceFields = (fields: ForceField[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(fields));
+  } catch (e) {
+    console.warn("Failed to save force fields", e);
+  }
+};
+
+// --- Packing ---
+
+const bandLevel = (audio: AudioData, band: AudioBand) => {
+  switch (band) {
+    case 'BASS': return audio.bass;
+    case 'MID': return audio.mid;
+    case 'TREBLE': return audio.treble;
+    case 'NONE': return 0;
+  }
+};
+
+/**
+ * Evaluates animation and audio for the enabled fields at `time` (seconds) and packs
+ * them for the physics kernel. Returns the number of fields written.
+ */
+export const packForceFields = (fields: ForceField[], audio: AudioData, time: number, out: Float32Array): number => {
+  let count = 0;
+  for (const field of fields) {
+    if (!field.enabled || count >= MAX_FORCE_FIELDS) continue;
+    const { kind, position, direction, radius, speed } = field;
+    let strength = field.strength * (1 + bandLevel(audio, field.audioBand) * field.audioGain);
+    let [px, , pz] = position;
+    let [dx, , dz] = direction;
+    const angle = time * speed;
+
+    if (kind === 'GRAVITY_WELL' || kind === 'VORTEX') {
+      // Orbit the well / precess the axis around the vertical
+      const cos = Math.cos(angle), sin = Math.sin(angle);
+      if (kind === 'GRAVITY_WELL') [px, pz] = [position[0] * cos - position[2] * sin, position[0] * sin + position[2] * cos];
+      else [dx, dz] = [direction[0] * cos - direction[2] * sin, direction[0] * sin + direction[2] * cos];
+    } else if (kind === 'WIND') {
+      // Gusts between half and one and a half times the strength
+      strength *= 1 + 0.5 * Math.sin(angle * Math.PI * 2);
+    }
+
+    const dirLength = Math.hypot(dx, direction[1], dz) || 1;
+    const o = count * FIELD_STRIDE;
+    out[o] = FIELD_KINDS[kind];
+    out[o + 1] = strength;
+    out[o + 2] = px;
+    out[o + 3] = position[1];
+    out[o + 4] = pz;
+    out[o + 5] = dx / dirLength;
+    out[o + 6] = direction[1] / dirLength;
+    out[o + 7] = dz / dirLength;
+    out[o + 8] = radius;
+    out[o + 9] = angle; // Noise phase
+    count++;
+  }
+  return count;
+};
@@ -0,0 +1,147 @@
+import { AppCommandType, BindingConfig, ContinuousBinding, ContinuousParam, GestureBinding, HandPose, HandSignal } from '../types';
+import { DEFAULT_BINDINGS } from '../constants';
+
+const STORAGE_KEY = 'jarvis.gestureBindings';
+// Bump when DEFAULT_BINDINGS gains bindings, so stored configs pick them up once
+const CONFIG_VERSION = 2; // 2: depth dolly
+
+type CommandCallback = (type: AppCommandType, value: string) => void;
+
+// --- Persistence ---
+
+export const loadBindings = (): BindingConfig => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_BINDINGS;
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed.triggers) || !Array.isArray(parsed.continuous)) return DEFAULT_BINDINGS;
+    const config: BindingConfig = { triggers: parsed.triggers, continuous: parsed.continuous };
+    if (parsed.version === CONFIG_VERSION) return config;
+    // Older config: add defaults it predates (ones deleted since stay deleted once saved)
+    return {
+      triggers: [...config.triggers, ...DEFAULT_BINDINGS.triggers.filter(d => !config.triggers.some(b => b.id === d.id))],
+      continuous: [...config.continuous, ...DEFAULT_BINDINGS.continuous.filter(d => !config.continuous.some(b => b.id === d.id))],
+    };
+  } catch (e) {
+    console.warn("Failed to load gesture bindings, using defaults", e);
+    return DEFAULT_BINDINGS;
+  }
+};
+
+export const saveBindings = (config: BindingConfig) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: CONFIG_VERSION, ...config }));
+  } catch (e) {
+    console.warn("Failed to save gesture bindings", e);
+  }
+};
+
+// --- Continuous Bindings ---
+
+export interface HandSignals {
+  x: number; // -1 to 1
+  y: number; // -1 to 1
+  z: number; // -1 to 1
+  spread: number; // 0 to 1
+}
+
+// World units the formation travels at full depth with gain 1
+const DOLLY_RANGE = 8;
+
+// Signal as -1..1 (for rotations and dolly)
+const centered = (signal: HandSignal, s: HandSignals) => {
+  switch (signal) {
+    case 'X': return s.x;
+    case 'Y': return s.y;
+    case 'Z': return s.z;
+    case 'SPREAD': return s.spread * 2 - 1;
+  }
+};
+
+// Signal as 0..1 (for scale)
+const unit = (signal: HandSignal, s: HandSignals) =>
+  signal === 'SPREAD' ? s.spread : (centered(signal, s) + 1) / 2;
+
+/**
+ * Maps hand signals to target values for every bound parameter.
+ * Rotations are in radians, DOLLY in world units along the view axis,
+ * SCALE keeps the original 0.3 (fist) to 1.5 (open) range at gain 1.
+ * Unbound parameters are left out so the caller can apply its own default.
+ */
+export const evaluateContinuous = (bindings: ContinuousBinding[], signals: HandSignals): Partial<Record<ContinuousParam, number>> => {
+  const result: Partial<Record<ContinuousParam, number>> = {};
+  for (const { signal, param, gain } of bindings) {
+    if (param === 'SCALE') {
+      result.SCALE = (result.SCALE ?? 0.3) + unit(signal, signals) * 1.2 * gain;
+    } else if (param === 'DOLLY') {
+      result.DOLLY = (result.DOLLY ?? 0) + centered(signal, signals) * gain * DOLLY_RANGE;
+    } else {
+      result[param] = (result[param] ?? 0) + centered(signal, signals) * gain;
+    }
+  }
+  return result;
+};
+
+// --- Discrete Bindings ---
+
+/**
+ * Watches the hand stream for pose entries, pose holds and clench edges
+ * and fires the bound app commands.
+ */
+export class GestureBindingEngine {
+  private bindings: GestureBinding[] = [];
+  private onCommand: CommandCallback;
+  private currentPose: HandPose = HandPose.NONE;
+  private poseSince: number = 0;
+  private firedHolds = new Set<string>();
+  private wasClenched: boolean = false;
+
+  constructor(onCommand: CommandCallback) {
+    this.onCommand = onCommand;
+  }
+
+  public setBindings(bindings: GestureBinding[]) {
+    this.bindings = bindings;
+    this.firedHolds.clear();
+  }
+
+  // timestamp in ms
+  public update(data: { isDetected: boolean; isClenched: boolean; pose: HandPose }, timestamp: number) {
+    const pose = data.isDetected ? data.pose : HandPose.NONE;
+    let poseEntered = false;
+    if (pose !== this.currentPose) {
+      this.currentPose = pose;
+      this.poseSince = timestamp;
+      this.firedHolds.clear();
+      poseEntered = pose !== HandPose.NONE;
+    }
+
+    // Losing the hand resets the clench state without firing an edge
+    const isClenched = data.isDetected && data.isClenched;
+    const clenchEdge = data.isDetected && isClenched !== this.wasClenched ? (isClenched ? 'START' : 'END') : null;
+    this.wasClenched = isClenched;
+
+    for (const binding of this.bindings) {
+      const { trigger } = binding;
+      switch (trigger.kind) {
+        case 'POSE':
+          if (poseEntered && trigger.pose === pose) this.fire(binding);
+          break;
+        case 'POSE_HOLD':
+          if (trigger.pose === pose && pose !== HandPose.NONE && !this.firedHolds.has(binding.id) && timestamp - this.poseSince >= trigger.durationMs) {
+            this.firedHolds.add(binding.id);
+            this.fire(binding);
+          }
+          break;
+        case 'CLENCH':
+          if (clenchEdge === trigger.edge) this.fire(binding);
+          break;
+      }
+    }
+  }
+
+  private fire(binding: GestureBinding) {
+    console.log(`Gesture Binding: ${binding.command} -> ${binding.value}`);
+    this.onCommand(binding.command, binding.value);
+  }
+}
@@ -0,0 +1,116 @@
+import { HandPose, Landmark } from '../types';
+
+export interface PoseResult {
+  pose: HandPose;
+  confidence: number; // 0 - 1
+}
+
+// MediaPipe landmark indices
+const WRIST = 0;
+const THUMB_MCP = 2;
+const THUMB_TIP = 4;
+const FINGERS = [
+  { mcp: 5, tip: 8 },   // Index
+  { mcp: 9, tip: 12 },  // Middle
+  { mcp: 13, tip: 16 }, // Ring
+  { mcp: 17, tip: 20 }, // Pinky
+];
+
+// Minimum score for a pose to be considered at all
+const MIN_CONFIDENCE = 0.5;
+// How long a new pose must win before it replaces the current one
+const DEBOUNCE_MS = 150;
+
+const dist = (a: Landmark, b: Landmark) => Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+
+// Linear ramp from 0 (at lo) to 1 (at hi), clamped
+const ramp = (value: number, lo: number, hi: number) => Math.min(Math.max((value - lo) / (hi - lo), 0), 1);
+
+// Geometric mean: any term near 0 vetoes the pose, all terms high gives a high score
+const score = (...terms: number[]) => {
+  let product = 1;
+  for (const t of terms) product *= Math.max(t, 0.01);
+  return Math.pow(product, 1 / terms.length);
+};
+
+/**
+ * Scores every pose for one frame of landmarks.
+ * All measurements are relative to palm size so the result is independent of
+ * hand size and distance from the camera.
+ */
+export const scorePoses = (landmarks: Landmark[]): Record<HandPose, number> => {
+  const wrist = landmarks[WRIST];
+  const palmSize = Math.max(dist(wrist, landmarks[FINGERS[1].mcp]), 1e-6);
+
+  // Finger extension: wrist->tip vs wrist->knuckle. ~1.9 when straight, ~1.0 when curled.
+  const [index, middle, ring, pinky] = FINGERS.map(f =>
+    ramp(dist(wrist, landmarks[f.tip]) / dist(wrist, landmarks[f.mcp]), 1.15, 1.6)
+  );
+
+  // Thumb extension: how far the tip sits from the index knuckle
+  const thumb = ramp(dist(landmarks[THUMB_TIP], landmarks[FINGERS[0].mcp]) / palmSize, 0.35, 0.6);
+  // Thumb pointing up in image space (y grows downward)
+  const thumbUp = ramp((landmarks[THUMB_MCP].y - landmarks[THUMB_TIP].y) / palmSize, 0.2, 0.5);
+  // Thumb and index tips touching
+  const pinch = 1 - ramp(dist(landmarks[THUMB_TIP], landmarks[FINGERS[0].tip]) / palmSize, 0.15, 0.35);
+
+  const curled = score(1 - index, 1 - middle, 1 - ring, 1 - pinky);
+  const othersOpen = (middle + ring + pinky) / 3;
+
+  return {
+    [HandPose.NONE]: 0,
+    [HandPose.OPEN_PALM]: score(index, middle, ring, pinky, thumb, 1 - pinch),
+    [HandPose.FIST]: score(curled, 1 - thumb * thumbUp),
+    [HandPose.THUMBS_UP]: score(curled, thumb, thumbUp),
+    [HandPose.POINT]: score(index, 1 - middle, 1 - ring, 1 - pinky, 1 - pinch),
+    [HandPose.PEACE]: score(index, middle, 1 - ring, 1 - pinky, 1 - pinch),
+    [HandPose.PINCH]: score(pinch, 1 - othersOpen),
+    [HandPose.OK]: score(pinch, middle, ring, pinky),
+  };
+};
+
+export const classifyPose = (landmarks: Landmark[]): PoseResult => {
+  const scores = scorePoses(landmarks);
+  let best: PoseResult = { pose: HandPose.NONE, confidence: 0 };
+  for (const [pose, confidence] of Object.entries(scores)) {
+    if (confidence > best.confidence) best = { pose: pose as HandPose, confidence };
+  }
+  if (best.confidence < MIN_CONFIDENCE) return { pose: HandPose.NONE, confidence: 1 - best.confidence };
+  return best;
+};
+
+/**
+ * Stateful, debounced classifier for a single hand.
+ * A candidate pose only becomes the reported pose after winning for DEBOUNCE_MS,
+ * so single-frame misclassifications never reach the rest of the app.
+ */
+export class GestureClassifier {
+  private current: PoseResult = { pose: HandPose.NONE, confidence: 0 };
+  private candidate: HandPose = HandPose.NONE;
+  private candidateSince: number = 0;
+
+  public update(landmarks: Landmark[], timestamp: number): PoseResult {
+    const raw = classifyPose(landmarks);
+
+    if (raw.pose === this.current.pose) {
+      this.candidate = raw.pose;
+      // Smooth confidence of the held pose
+      this.current = { pose: raw.pose, confidence: this.current.confidence * 0.7 + raw.confidence * 0.3 };
+      return this.current;
+    }
+
+    if (raw.pose !== this.candidate) {
+      this.candidate = raw.pose;
+      this.candidateSince = timestamp;
+    } else if (timestamp - this.candidateSince >= DEBOUNCE_MS) {
+      this.current = raw;
+    }
+    return this.current;
+  }
+
+  public reset() {
+    this.current = { pose: HandPose.NONE, confidence: 0 };
+    this.candidate = HandPose.NONE;
+    this.candidateSince = 0;
+  }
+}
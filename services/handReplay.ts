@@ -0,0 +1,99 @@
+import { HandData, HandFrame, HandRecording, SmoothingConfig, HandTrackingProvider, HandCalibration } from '../types';
+import { HandAnalyzer } from './handTracking';
+
+const LANDMARKS_PER_HAND = 21;
+
+const isHandLandmarks = (hand: unknown): boolean =>
+  Array.isArray(hand) && hand.length === LANDMARKS_PER_HAND && hand.every(p =>
+    !!p && typeof p.x === 'number' && typeof p.y === 'number' && typeof p.z === 'number');
+
+/**
+ * Validates and parses a recording file produced by HandTrackerService.stopRecording().
+ */
+export const parseHandRecording = (json: string): HandRecording => {
+  const data = JSON.parse(json);
+  if (!data || data.version !== 1 || !Array.isArray(data.frames)) {
+    throw new Error("Not a hand recording (expected version 1 with a frames array).");
+  }
+  for (const frame of data.frames as HandFrame[]) {
+    if (typeof frame.t !== 'number' || !Array.isArray(frame.landmarks) || !Array.isArray(frame.handedness)
+      || !frame.landmarks.every(isHandLandmarks)) {
+      throw new Error("Corrupt hand recording frame.");
+    }
+  }
+  return data as HandRecording;
+};
+
+/**
+ * Plays a HandRecording back in real time through the same HandAnalyzer
+ * the live tracker uses, so the callback receives exactly what the camera produced.
+ */
+export class HandReplayService implements HandTrackingProvider {
+  public readonly source = 'REPLAY' as const;
+  private recording: HandRecording;
+  private onResultsCallback: (data: HandData) => void;
+  private analyzer = new HandAnalyzer();
+  private animationFrameId: number | null = null;
+  private startedAt: number = 0;
+  private nextFrame: number = 0;
+  private loop: boolean;
+  private frameListener: ((frame: HandFrame) => void) | null = null;
+
+  constructor(recording: HandRecording, onResults: (data: HandData) => void, loop = true) {
+    this.recording = recording;
+    this.onResultsCallback = onResults;
+    this.loop = loop;
+  }
+
+  public async initialize() {
+    console.log(`Replaying ${this.recording.frames.length} recorded hand frames...`);
+    this.restart();
+    this.animationFrameId = requestAnimationFrame(this.step);
+  }
+
+  public setSmoothing(smoothing: SmoothingConfig) {
+    this.analyzer.setSmoothing(smoothing);
+  }
+
+  public setCalibration(calibration: HandCalibration) {
+    this.analyzer.setCalibration(calibration);
+  }
+
+  public setFrameListener(listener: ((frame: HandFrame) => void) | null) {
+    this.frameListener = listener;
+  }
+
+  private restart() {
+    this.analyzer.reset();
+    this.startedAt = performance.now();
+    this.nextFrame = 0;
+  }
+
+  private step = () => {
+    const frames = this.recording.frames;
+    const elapsed = performance.now() - this.startedAt;
+
+    // Emit every frame that is due, in order, so debouncing sees the original cadence
+    while (this.nextFrame < frames.length && frames[this.nextFrame].t <= elapsed) {
+      this.frameListener?.(frames[this.nextFrame]);
+      this.onResultsCallback(this.analyzer.process(frames[this.nextFrame]));
+      this.nextFrame++;
+    }
+
+    if (this.nextFrame >= frames.length) {
+      if (!this.loop) {
+        this.animationFrameId = null;
+        return;
+      }
+      this.restart();
+    }
+
+    this.animationFrameId = requestAnimationFrame(this.step);
+  };
+
+  public stop() {
+    if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
+    this.animationFrameId = null;
+    this.analyzer.reset();
+  }
+}
@@ -1,87 +1,517 @@
-import { HandData } from '../types';
+import { HandData, HandState, Handedness, HandPose, Landmark, HandFrame, HandRecording, SmoothingConfig, HandTrackingProvider, HandCalibration, CameraSettings, CameraStatus } from '../types';
+import { DEFAULT_SMOOTHING, DEFAULT_CALIBRATION, DEFAULT_CAMERA_SETTINGS } from '../constants';
+import { GestureClassifier } from './gestures';
+import { OneEuroFilter } from './filters';
+import { loadHandsLibrary, locateHandsFile } from './mediapipeAssets';
+import { buildVideoConstraints } from './cameraDevices';
 
 // Define local interface for MediaPipe Results since we aren't importing the type
 interface Results {
-    multiHandLandmarks: Array<Array<{x: number, y: number, z: number}>>;
+    multiHandLandmarks: Array<Array<Landmark>>;
+    multiHandedness?: Array<{ index: number, score: number, label: string }>;
 }
 
-export class HandTrackerService {
+// Temporal state kept for each hand between frames
+class HandTrack {
+  public classifier = new GestureClassifier();
+  public xFilter: OneEuroFilter;
+  public yFilter: OneEuroFilter;
+  public zFilter: OneEuroFilter;
+  public spreadFilter: OneEuroFilter;
+  public isClenched: boolean = false;
+
+  constructor(config: SmoothingConfig) {
+    this.xFilter = new OneEuroFilter(config.x);
+    this.yFilter = new OneEuroFilter(config.y);
+    this.zFilter = new OneEuroFilter(config.z);
+    this.spreadFilter = new OneEuroFilter(config.handSpread);
+  }
+
+  public configure(config: SmoothingConfig) {
+    this.xFilter.setParams(config.x);
+    this.yFilter.setParams(config.y);
+    this.zFilter.setParams(config.z);
+    this.spreadFilter.setParams(config.handSpread);
+  }
+
+  public reset() {
+    this.classifier.reset();
+    this.xFilter.reset();
+    this.yFilter.reset();
+    this.zFilter.reset();
+    this.spreadFilter.reset();
+    this.isClenched = false;
+  }
+}
+
+// Apparent palm size (wrist -> middle knuckle, normalized image units) at the depth extremes.
+// ~0.25 is a hand roughly 30cm from a webcam, ~0.05 is roughly 1.5m away.
+const PALM_SIZE_NEAR = 0.25;
+const PALM_SIZE_FAR = 0.05;
+
+const dist3 = (a: Landmark, b: Landmark) => Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+// Thumb, index, middle, ring, pinky
+const FINGERTIPS = [4, 8, 12, 16, 20];
+
+// Raw, unnormalized per-frame hand metrics (also used by the calibration wizard)
+export interface HandMeasurements {
+  palmX: number; // Image space 0-1 (not mirrored)
+  palmY: number; // Image space 0-1
+  palmSize: number; // Normalized image units
+  openness: number; // Furthest raised fingertip from the wrist, normalized image units
+  spreadRatio: number; // Mean fingertip distance from the wrist, in palm sizes
+}
+
+export const measureHand = (landmarks: Landmark[], calibration: HandCalibration): HandMeasurements => {
+  // Calculate simple center of palm (approximate using wrist + index MCP)
+  const wrist = landmarks[0];
+  const middleFingerMCP = landmarks[9];
+  
+  // Normalized coordinates (0-1)
+  const palmX = (wrist.x + middleFingerMCP.x) / 2; 
+  const palmY = (wrist.y + middleFingerMCP.y) / 2;
+
+  // Detect Clench & Spread
+  const tips = [8, 12, 16, 20]; // Index, Middle, Ring, Pinky tips
+  const palmBaseY = landmarks[0].y;
+  
+  let openness = 0;
+  // Calculate Average Distance from Wrist to Tips (Spread/Size)
+  let totalDist = 0;
+  for (const tipIdx of tips) {
+    const distToWrist = Math.sqrt(
+        Math.pow(landmarks[tipIdx].x - landmarks[0].x, 2) + 
+        Math.pow(landmarks[tipIdx].y - landmarks[0].y, 2)
+    );
+
+    // Clench Logic: only fingers raised above the palm base count as open
+    if (landmarks[tipIdx].y < palmBaseY - calibration.raiseOffset) { 
+      openness = Math.max(openness, distToWrist);
+    }
+
+    // Spread Logic
+    totalDist += distToWrist;
+  }
+
+  // Palm size from the rigid part of the hand (unaffected by finger pose).
+  // Landmark z has roughly the same scale as x, so the 3D distance
+  // compensates for a palm tilted towards/away from the camera.
+  const palmSize = Math.max(
+      (dist3(landmarks[0], landmarks[9]) + dist3(landmarks[5], landmarks[17]) * 1.25) / 2,
+      1e-6
+  );
+
+  return { palmX, palmY, palmSize, openness, spreadRatio: (totalDist / 4) / palmSize };
+};
+
+/**
+ * Turns one frame of raw landmarks into HandData.
+ * Deterministic for a given sequence of frames (time only comes from frame.t),
+ * so live tracking and recorded replays produce identical output.
+ */
+export class HandAnalyzer {
+  private smoothing: SmoothingConfig;
+  private calibration: HandCalibration = DEFAULT_CALIBRATION;
+  // Per-hand filters and pose classifier, keyed by handedness
+  private tracks: Record<Handedness, HandTrack>;
+
+  constructor(smoothing: SmoothingConfig = DEFAULT_SMOOTHING) {
+    this.smoothing = smoothing;
+    this.tracks = {
+      Left: new HandTrack(smoothing),
+      Right: new HandTrack(smoothing),
+    };
+  }
+
+  public setSmoothing(smoothing: SmoothingConfig) {
+    this.smoothing = smoothing;
+    this.tracks.Left.configure(smoothing);
+    this.tracks.Right.configure(smoothing);
+  }
+
+  public setCalibration(calibration: HandCalibration) {
+    this.calibration = calibration;
+  }
+
+  public process(frame: HandFrame): HandData {
+    if (frame.landmarks.length > 0) {
+      const sides = this.resolveSides(frame);
+      const hands = frame.landmarks.map((landmarks, i) =>
+          this.analyzeHand(landmarks, frame.t, sides[i], frame.handedness[i]?.score));
+
+      // Forget filter and pose history of hands that left the frame
+      for (const side of ['Left', 'Right'] as Handedness[]) {
+          if (!hands.some(h => h.handedness === side)) this.tracks[side].reset();
+      }
+
+      // The first hand drives the legacy single-hand fields
+      const primary = hands[0];
+
+      return {
+        x: primary.x, 
+        y: primary.y, 
+        z: primary.z,
+        isDetected: true,
+        isClenched: primary.isClenched,
+        handSpread: primary.handSpread,
+        pose: primary.pose,
+        poseConfidence: primary.poseConfidence,
+        hands
+      };
+    }
+
+    this.reset();
+    return {
+      x: 0,
+      y: 0,
+      z: 0,
+      isDetected: false,
+      isClenched: false,
+      handSpread: 0.5,
+      pose: HandPose.NONE,
+      poseConfidence: 0,
+      hands: []
+    };
+  }
+
+  public reset() {
+    this.tracks.Left.reset();
+    this.tracks.Right.reset();
+  }
+
+  // Which track each hand of the frame belongs to
+  private resolveSides(frame: HandFrame): Handedness[] {
+      const screenX = frame.landmarks.map(landmarks => this.screenX(measureHand(landmarks, this.calibration).palmX));
+
+      // MediaPipe labels handedness assuming a mirrored (selfie) image.
+      // We feed the raw camera frame, so the label is swapped.
+      // Fallback: a hand on the right of the screen is most likely the right hand.
+      const sides = frame.landmarks.map((_, i): Handedness => {
+          const label = frame.handedness[i]?.label;
+          if (label === 'Left') return 'Right';
+          if (label === 'Right') return 'Left';
+          return screenX[i] >= 0 ? 'Right' : 'Left';
+      });
+
+      // Both hands can get the same label (crossed or back-facing hands); they would then
+      // share one track. Split them by position instead: the one further right is the right hand.
+      if (sides.length === 2 && sides[0] === sides[1]) {
+          const firstOnRight = screenX[0] >= screenX[1];
+          sides[0] = firstOnRight ? 'Right' : 'Left';
+          sides[1] = firstOnRight ? 'Left' : 'Right';
+      }
+      return sides;
+  }
+
+  // MIRRORING FIX: Invert X logic.
+  // If xRaw is 0 (left of image), it should be 1 (right of screen)
+  // (0.5 - xRaw) * 2 maps:
+  // 0.0 -> 1.0 (Right)
+  // 1.0 -> -1.0 (Left)
+  private screenX(palmX: number): number {
+      // Map the user's comfortable reach (calibrated region) onto the full range
+      const { region } = this.calibration;
+      const xRaw = clamp01((palmX - region.minX) / (region.maxX - region.minX));
+      return (0.5 - xRaw) * 2;
+  }
+
+  private analyzeHand(landmarks: Landmark[], timestamp: number, handedness: Handedness, score = 0): HandState {
+      const { palmX, palmY, palmSize, openness, spreadRatio } = measureHand(landmarks, this.calibration);
+      const { region } = this.calibration;
+
+      const yRaw = clamp01((palmY - region.minY) / (region.maxY - region.minY));
+      const xMirrored = this.screenX(palmX);
+      const yFlipped = -(yRaw - 0.5) * 2; // Invert Y for 3D
+
+      const track = this.tracks[handedness];
+
+      // Hysteresis: the threshold moves away from the current state,
+      // so noise around the clench threshold cannot flip it every frame
+      const { clenchDistance } = this.calibration;
+      const hysteresis = this.smoothing.enabled ? this.smoothing.clenchHysteresis : 0;
+      const isClenched = track.isClenched
+        ? openness <= clenchDistance + hysteresis
+        : openness <= clenchDistance - hysteresis;
+      track.isClenched = isClenched;
+
+      // Depth: bigger palm = closer to the camera. Output: -1 (far) to 1 (near)
+      const zRaw = Math.min(Math.max(((palmSize - PALM_SIZE_FAR) / (PALM_SIZE_NEAR - PALM_SIZE_FAR)) * 2 - 1, -1), 1);
+
+      // Normalize Spread relative to palm size so moving closer/further changes depth, not spread.
+      // Uncalibrated, tips sit ~1.0 palm lengths from the wrist in a fist and ~1.9 when wide open.
+      // Output: 0 to 1
+      const { spreadMin, spreadMax } = this.calibration;
+      const spreadRaw = clamp01((spreadRatio - spreadMin) / (spreadMax - spreadMin));
+
+      // Temporal smoothing (filters keep running while disabled so re-enabling is seamless)
+      const xSmoothed = track.xFilter.filter(xMirrored, timestamp);
+      const ySmoothed = track.yFilter.filter(yFlipped, timestamp);
+      const zSmoothed = track.zFilter.filter(zRaw, timestamp);
+      const spreadSmoothed = track.spreadFilter.filter(spreadRaw, timestamp);
+
+      const x = this.smoothing.enabled ? xSmoothed : xMirrored;
+      const y = this.smoothing.enabled ? ySmoothed : yFlipped;
+      const z = this.smoothing.enabled ? zSmoothed : zRaw;
+      const handSpread = this.smoothing.enabled ? spreadSmoothed : spreadRaw;
+
+      const { pose, confidence: poseConfidence } = track.classifier.update(landmarks, timestamp);
+
+      // Fingertips ride on the (smoothed) palm, offset by their raw distance from it,
+      // so they follow the same mirroring, region mapping and filtering as the palm
+      const fingertips = FINGERTIPS.map(idx => ({
+        x: x - ((landmarks[idx].x - palmX) / (region.maxX - region.minX)) * 2,
+        y: y - ((landmarks[idx].y - palmY) / (region.maxY - region.minY)) * 2,
+      }));
+
+      return { x, y, z, isClenched, handSpread, handedness, score, pose, poseConfidence, fingertips };
+  }
+}
+
+const isPermissionError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'NotAllowedError' || e.name === 'SecurityError');
+
+// Delay before each reconnect attempt after the camera is lost (ms); the last one repeats
+const RECONNECT_DELAYS = [500, 1000, 2000, 4000, 8000];
+// A track muted for this long is treated as lost
+const MUTE_TIMEOUT_MS = 3000;
+
+// MediaPipe Hands on the webcam
+export class HandTrackerService implements HandTrackingProvider {
+  public readonly source = 'CAMERA' as const;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private hands: any | null = null;
   private videoElement: HTMLVideoElement;
   private onResultsCallback: (data: HandData) => void;
+  private onStatusCallback: (status: CameraStatus) => void;
   private stream: MediaStream | null = null;
+  // Bumped per openStream() call; a stream whose request was superseded is stopped on arrival
+  private streamRequest: number = 0;
+  private streamPending: boolean = false;
+  // Settles the pending wait for video metadata when its stream is closed first
+  private abortStreamWait: (() => void) | null = null;
   private animationFrameId: number | null = null;
   private isActive: boolean = false;
+  private analyzer = new HandAnalyzer();
+  private recordedFrames: HandFrame[] | null = null;
+  private recordingStartedAt: number = 0;
+  private frameListener: ((frame: HandFrame) => void) | null = null;
+  private settings: CameraSettings = DEFAULT_CAMERA_SETTINGS;
+  private status: CameraStatus = 'OFF';
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt: number = 0;
+  private muteTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(videoElement: HTMLVideoElement, onResults: (data: HandData) => void) {
+  constructor(videoElement: HTMLVideoElement, onResults: (data: HandData) => void, onStatus: (status: CameraStatus) => void = () => {}) {
     this.videoElement = videoElement;
     this.onResultsCallback = onResults;
+    this.onStatusCallback = onStatus;
   }
 
   public async initialize() {
     console.log("Initializing HandTrackerService...");
     this.isActive = true;
-    
-    // Access Hands from the global window object loaded via script tag
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const Hands = (window as any).Hands;
-    
-    if (!Hands) {
-        throw new Error("MediaPipe Hands library not loaded. Check script tags.");
-    }
+    this.setStatus('STARTING');
 
-    // Explicitly versioned asset loading to match the package version (0.4.1675469240)
-    this.hands = new Hands({
-      locateFile: (file: string) => {
-        return `https://cdn.jsdelivr.net/npm/@mediapipe/hands@0.4.1675469240/${file}`;
-      },
-    });
+    try {
+        // Hands is a global installed by the bundled hands.js script
+        const Hands = await loadHandsLibrary();
 
-    this.hands.setOptions({
-      maxNumHands: 1,
-      modelComplexity: 1,
-      minDetectionConfidence: 0.5,
-      minTrackingConfidence: 0.5,
-    });
+        // Model and wasm assets are bundled with the app (see mediapipeAssets.ts)
+        this.hands = new Hands({
+          locateFile: locateHandsFile,
+        });
 
-    this.hands.onResults(this.processResults);
+        this.hands.setOptions({
+          maxNumHands: 2,
+          modelComplexity: 1,
+          minDetectionConfidence: 0.5,
+          minTrackingConfidence: 0.5,
+        });
+
+        this.hands.onResults(this.processResults);
 
-    try {
         console.log("Requesting camera access...");
-        this.stream = await navigator.mediaDevices.getUserMedia({ 
-            video: { 
-                width: { ideal: 640 },
-                height: { ideal: 480 },
-                facingMode: 'user'
-            } 
-        });
-        
+        await this.openStream();
         console.log("Camera access granted.");
-        this.videoElement.srcObject = this.stream;
-        
-        // Wait for video to be ready before starting loop
-        await new Promise<void>((resolve) => {
-            this.videoElement.onloadedmetadata = () => {
-                this.videoElement.play();
-                resolve();
-            };
-        });
+        // Stopped while the camera was opening
+        if (!this.isActive) return;
+
+        // A replugged camera is picked up without waiting for the next retry
+        navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
 
         // Start manual processing loop
         this.startLoop();
 
     } catch (e) {
         console.error("Error accessing camera or initializing MediaPipe:", e);
+        this.setStatus(isPermissionError(e) ? 'DENIED' : 'FAILED');
+        throw e;
+    }
+  }
+
+  // Applies immediately when the camera is running
+  public setCameraSettings(settings: CameraSettings) {
+    this.settings = settings;
+    // While a stream is opening, reopen so the newest settings win
+    if (!this.isActive || (!this.stream && !this.streamPending)) return;
+    this.setStatus('STARTING');
+    this.openStream().catch((e) => {
+        console.warn("Failed to apply camera settings", e);
+        this.scheduleReconnect();
+    });
+  }
+
+  private setStatus(status: CameraStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    this.onStatusCallback(status);
+  }
+
+  // --- Stream Lifecycle ---
+
+  private async openStream() {
+    const request = ++this.streamRequest;
+    this.closeStream();
+    this.streamPending = true;
+    try {
+        await this.startStream(request);
+    } finally {
+        if (request === this.streamRequest) this.streamPending = false;
+    }
+  }
+
+  private async startStream(request: number) {
+    let stream: MediaStream;
+    try {
+        stream = await this.requestStream();
+    } catch (e) {
+        // A newer request owns the camera now; its outcome is what counts
+        if (request !== this.streamRequest) return;
         throw e;
     }
+
+    if (!this.isActive || request !== this.streamRequest) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+    }
+
+    this.stream = stream;
+    const track = stream.getVideoTracks()[0];
+    track.addEventListener('ended', this.handleTrackLost);
+    track.addEventListener('mute', this.handleTrackMute);
+    track.addEventListener('unmute', this.handleTrackUnmute);
+    this.videoElement.srcObject = stream;
+
+    // Wait for video to be ready before frames are sent
+    const loaded = await new Promise<boolean>((resolve) => {
+        const onLoaded = () => {
+            this.abortStreamWait = null;
+            resolve(true);
+        };
+        this.videoElement.addEventListener('loadedmetadata', onLoaded, { once: true });
+        this.abortStreamWait = () => {
+            this.videoElement.removeEventListener('loadedmetadata', onLoaded);
+            this.abortStreamWait = null;
+            resolve(false);
+        };
+    });
+    if (!loaded || request !== this.streamRequest) return;
+    this.videoElement.play();
+
+    this.reconnectAttempt = 0;
+    this.setStatus(track.muted ? 'MUTED' : 'LIVE');
+  }
+
+  private async requestStream(): Promise<MediaStream> {
+    try {
+        return await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(this.settings) });
+    } catch (e) {
+        // The chosen camera is gone or can't do the requested mode: fall back to the default one
+        if (!this.settings.deviceId || isPermissionError(e)) throw e;
+        console.warn("Selected camera unavailable, falling back to default", e);
+        return navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints({ ...this.settings, deviceId: null }) });
+    }
+  }
+
+  private closeStream() {
+    this.abortStreamWait?.();
+    if (this.muteTimer) clearTimeout(this.muteTimer);
+    this.muteTimer = null;
+
+    if (this.stream) {
+        for (const track of this.stream.getTracks()) {
+            track.removeEventListener('ended', this.handleTrackLost);
+            track.removeEventListener('mute', this.handleTrackMute);
+            track.removeEventListener('unmute', this.handleTrackUnmute);
+            track.stop();
+        }
+        this.stream = null;
+    }
+
+    if (this.videoElement) {
+        this.videoElement.srcObject = null;
+    }
+  }
+
+  private scheduleReconnect(delay?: number) {
+    if (!this.isActive || this.reconnectTimer) return;
+    this.setStatus('RECONNECTING');
+    this.closeStream();
+    // Nothing is tracked while the camera is away
+    this.onResultsCallback(this.analyzer.process({ t: performance.now(), landmarks: [], handedness: [] }));
+
+    const wait = delay ?? RECONNECT_DELAYS[Math.min(this.reconnectAttempt, RECONNECT_DELAYS.length - 1)];
+    this.reconnectAttempt++;
+    this.reconnectTimer = setTimeout(async () => {
+        this.reconnectTimer = null;
+        try {
+            await this.openStream();
+            console.log("Camera reconnected.");
+        } catch (e) {
+            console.warn(`Camera reconnect attempt ${this.reconnectAttempt} failed`, e);
+            if (isPermissionError(e)) {
+                this.setStatus('DENIED');
+                return;
+            }
+            this.scheduleReconnect();
+        }
+    }, wait);
   }
 
+  private handleTrackLost = () => {
+    console.warn("Camera track lost, reconnecting...");
+    this.scheduleReconnect();
+  };
+
+  private handleTrackMute = () => {
+    this.setStatus('MUTED');
+    if (this.muteTimer) clearTimeout(this.muteTimer);
+    this.muteTimer = setTimeout(this.handleTrackLost, MUTE_TIMEOUT_MS);
+  };
+
+  private handleTrackUnmute = () => {
+    if (this.muteTimer) clearTimeout(this.muteTimer);
+    this.muteTimer = null;
+    this.setStatus('LIVE');
+  };
+
+  private handleDeviceChange = () => {
+    if (this.status !== 'RECONNECTING' || !this.reconnectTimer) return;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.reconnectAttempt = 0;
+    this.scheduleReconnect(RECONNECT_DELAYS[0]);
+  };
+
   private startLoop = () => {
       const step = async () => {
           if (!this.isActive) return;
 
-          if (this.hands && this.videoElement.readyState >= 2) {
+          // Only feed MediaPipe while frames are actually flowing
+          if (this.hands && this.status === 'LIVE' && this.videoElement.readyState >= 2) {
              try {
                 await this.hands.send({ image: this.videoElement });
              } catch (err) {
@@ -96,89 +526,70 @@ export class HandTrackerService {
   private processResults = (results: Results) => {
     if (!this.isActive) return;
 
-    if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-      const landmarks = results.multiHandLandmarks[0];
-      
-      // Calculate simple center of palm (approximate using wrist + index MCP)
-      const wrist = landmarks[0];
-      const middleFingerMCP = landmarks[9];
-      
-      // Normalized coordinates (0-1)
-      const xRaw = (wrist.x + middleFingerMCP.x) / 2; 
-      const yRaw = (wrist.y + middleFingerMCP.y) / 2;
-
-      // MIRRORING FIX: Invert X logic.
-      // If xRaw is 0 (left of image), it should be 1 (right of screen)
-      // (0.5 - xRaw) * 2 maps:
-      // 0.0 -> 1.0 (Right)
-      // 1.0 -> -1.0 (Left)
-      const x = (0.5 - xRaw) * 2;
-      const y = -(yRaw - 0.5) * 2; // Invert Y for 3D
-
-      // Detect Clench & Spread
-      const tips = [8, 12, 16, 20]; // Index, Middle, Ring, Pinky tips
-      let isClenched = true;
-      const palmBaseY = landmarks[0].y;
-      
-      // Calculate Average Distance from Wrist to Tips (Spread/Size)
-      let totalDist = 0;
-      for (const tipIdx of tips) {
-        // Clench Logic
-        if (landmarks[tipIdx].y < palmBaseY - 0.1) { 
-          const dist = Math.sqrt(
-            Math.pow(landmarks[tipIdx].x - landmarks[0].x, 2) + 
-            Math.pow(landmarks[tipIdx].y - landmarks[0].y, 2)
-          );
-          if (dist > 0.15) isClenched = false;
-        }
-
-        // Spread Logic
-        const distToWrist = Math.sqrt(
-            Math.pow(landmarks[tipIdx].x - landmarks[0].x, 2) + 
-            Math.pow(landmarks[tipIdx].y - landmarks[0].y, 2)
-        );
-        totalDist += distToWrist;
-      }
-
-      const avgDist = totalDist / 4;
-      // Normalize Spread: 0.15 (Fist) to 0.4 (Open)
-      // Output: 0 to 1
-      const handSpread = Math.min(Math.max((avgDist - 0.1) / 0.3, 0), 1);
+    const now = performance.now();
+    const frame: HandFrame = {
+      t: now,
+      // Copy to plain objects (MediaPipe attaches extra fields)
+      landmarks: (results.multiHandLandmarks || []).map(hand => hand.map(({ x, y, z }) => ({ x, y, z }))),
+      handedness: (results.multiHandedness || []).map(({ label, score }) => ({ label, score })),
+    };
 
-      this.onResultsCallback({
-        x, 
-        y, 
-        isDetected: true,
-        isClenched,
-        handSpread
-      });
-    } else {
-      this.onResultsCallback({
-        x: 0,
-        y: 0,
-        isDetected: false,
-        isClenched: false,
-        handSpread: 0.5
-      });
+    if (this.recordedFrames) {
+      this.recordedFrames.push({ ...frame, t: now - this.recordingStartedAt });
     }
+    this.frameListener?.(frame);
+
+    this.onResultsCallback(this.analyzer.process(frame));
   };
 
+  public setSmoothing(smoothing: SmoothingConfig) {
+    this.analyzer.setSmoothing(smoothing);
+  }
+
+  public setCalibration(calibration: HandCalibration) {
+    this.analyzer.setCalibration(calibration);
+  }
+
+  public setFrameListener(listener: ((frame: HandFrame) => void) | null) {
+    this.frameListener = listener;
+  }
+
+  // --- Session Recording ---
+
+  public get isRecording() {
+    return this.recordedFrames !== null;
+  }
+
+  public startRecording() {
+    this.recordedFrames = [];
+    this.recordingStartedAt = performance.now();
+  }
+
+  public stopRecording(): HandRecording {
+    const recording: HandRecording = {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      frames: this.recordedFrames || [],
+    };
+    this.recordedFrames = null;
+    return recording;
+  }
+
   public stop() {
     this.isActive = false;
     if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
-    
-    if (this.stream) {
-        this.stream.getTracks().forEach(track => track.stop());
-        this.stream = null;
-    }
-    
-    if (this.videoElement) {
-        this.videoElement.srcObject = null;
-    }
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    navigator.mediaDevices?.removeEventListener('devicechange', this.handleDeviceChange);
+
+    this.closeStream();
 
     if (this.hands) {
         this.hands.close();
         this.hands = null;
     }
+
+    this.analyzer.reset();
+    this.setStatus('OFF');
   }
-}
\ No newline at end of file
+}
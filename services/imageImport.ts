@@ -0,0 +1,41 @@
+import { ShapeDefinition } from '../types';
+import { PixelGrid, readPixels, samplePixels } from './pixelSampling';
+
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'gif'];
+
+const MAX_IMAGE_SIZE = 256; // Longest side after downscaling, in pixels
+
+const extensionOf = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+export const isImageFile = (file: File) => file.type.startsWith('image/') || IMAGE_EXTENSIONS.includes(extensionOf(file.name));
+
+const loadPixels = async (file: File): Promise<PixelGrid> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D is unavailable.");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return readPixels(ctx, width, height);
+};
+
+/**
+ * Loads a PNG/JPG into a formation for the shape registry.
+ * Sampling mode and relief come from the shape params, so they apply without re-importing.
+ */
+export const importImageShape = async (file: File): Promise<ShapeDefinition> => {
+  const grid = await loadPixels(file);
+  const label = file.name.replace(/\.[^.]+$/, '').toUpperCase();
+  return {
+    name: `IMAGE_${label.replace(/[^A-Z0-9]+/g, '_')}`,
+    label,
+    voiceAliases: label.length >= 3 ? [label] : [],
+    generator: (count, radius, { imageSampling, random }) => samplePixels(grid, count, radius, imageSampling, random),
+  };
+};
@@ -0,0 +1,63 @@
+// Self-hosted MediaPipe Hands assets.
+// Each `?url` import makes Vite serve the file from node_modules in dev and copy it
+// into the build, so tracking works offline and behind proxies (no CDN).
+import handsScriptUrl from '@mediapipe/hands/hands.js?url';
+import packedAssetsLoaderUrl from '@mediapipe/hands/hands_solution_packed_assets_loader.js?url';
+import packedAssetsDataUrl from '@mediapipe/hands/hands_solution_packed_assets.data?url';
+import simdWasmLoaderUrl from '@mediapipe/hands/hands_solution_simd_wasm_bin.js?url';
+import simdWasmUrl from '@mediapipe/hands/hands_solution_simd_wasm_bin.wasm?url';
+import simdWasmDataUrl from '@mediapipe/hands/hands_solution_simd_wasm_bin.data?url';
+import wasmLoaderUrl from '@mediapipe/hands/hands_solution_wasm_bin.js?url';
+import wasmUrl from '@mediapipe/hands/hands_solution_wasm_bin.wasm?url';
+import graphUrl from '@mediapipe/hands/hands.binarypb?url';
+import landmarkFullUrl from '@mediapipe/hands/hand_landmark_full.tflite?url';
+import landmarkLiteUrl from '@mediapipe/hands/hand_landmark_lite.tflite?url';
+
+const ASSET_URLS: Record<string, string> = {
+  'hands_solution_packed_assets_loader.js': packedAssetsLoaderUrl,
+  'hands_solution_packed_assets.data': packedAssetsDataUrl,
+  'hands_solution_simd_wasm_bin.js': simdWasmLoaderUrl,
+  'hands_solution_simd_wasm_bin.wasm': simdWasmUrl,
+  'hands_solution_simd_wasm_bin.data': simdWasmDataUrl,
+  'hands_solution_wasm_bin.js': wasmLoaderUrl,
+  'hands_solution_wasm_bin.wasm': wasmUrl,
+  'hands.binarypb': graphUrl,
+  'hand_landmark_full.tflite': landmarkFullUrl,
+  'hand_landmark_lite.tflite': landmarkLiteUrl,
+};
+
+// `locateFile` implementation for the Hands constructor
+export const locateHandsFile = (file: string) => {
+  const url = ASSET_URLS[file];
+  if (!url) console.warn(`Unknown MediaPipe asset requested: ${file}`);
+  return url || file;
+};
+
+let handsScriptPromise: Promise<void> | null = null;
+
+/**
+ * Loads the bundled hands.js (a global script, not an ES module) once
+ * and resolves with the `Hands` constructor it installs on window.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const loadHandsLibrary = async (): Promise<any> => {
+  if (!window.Hands) {
+    if (!handsScriptPromise) {
+      handsScriptPromise = new Promise<void>((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = handsScriptUrl;
+        script.onload = () => resolve();
+        script.onerror = () => {
+          handsScriptPromise = null;
+          reject(new Error("Failed to load bundled MediaPipe Hands script."));
+        };
+        document.head.appendChild(script);
+      });
+    }
+    await handsScriptPromise;
+  }
+  if (!window.Hands) {
+    throw new Error("MediaPipe Hands library not loaded.");
+  }
+  return window.Hands;
+};
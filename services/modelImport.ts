@@ -0,0 +1,147 @@
+import * as THREE from 'three';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { ShapeDefinition, ShapeTargets } from '../types';
+import { Random } from './random';
+
+export const MODEL_EXTENSIONS = ['obj', 'ply', 'stl', 'gltf', 'glb'];
+
+// Flattened triangle soup, normalised into the unit sphere
+interface TriangleMesh {
+  vertices: Float32Array; // 9 floats per triangle
+  colors: Float32Array | null; // 9 floats per triangle (rgb per corner)
+  cumulativeArea: Float64Array; // Running total per triangle, for area-weighted picking
+}
+
+const extensionOf = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+export const isModelFile = (file: File) => MODEL_EXTENSIONS.includes(extensionOf(file.name));
+
+// --- Parsing ---
+
+const parseModel = async (file: File): Promise<THREE.Object3D> => {
+  switch (extensionOf(file.name)) {
+    case 'obj':
+      return new OBJLoader().parse(await file.text());
+    case 'ply':
+      return new THREE.Mesh(new PLYLoader().parse(await file.arrayBuffer()));
+    case 'stl':
+      return new THREE.Mesh(new STLLoader().parse(await file.arrayBuffer()));
+    case 'gltf':
+    case 'glb':
+      // A single dropped file can't resolve external buffers: use .glb or embedded .gltf
+      return (await new GLTFLoader().parseAsync(await file.arrayBuffer(), '')).scene;
+    default:
+      throw new Error(`Unsupported model format: ${file.name}`);
+  }
+};
+
+// Bakes every mesh into world-space triangles. Meshes without vertex colours use their
+// material colour, so multi-part models keep their look when any part is coloured.
+const collectTriangles = (root: THREE.Object3D): TriangleMesh => {
+  root.updateMatrixWorld(true);
+  const meshes: THREE.Mesh[] = [];
+  root.traverse(obj => { if ((obj as THREE.Mesh).isMesh) meshes.push(obj as THREE.Mesh); });
+
+  const hasColors = meshes.some(m => m.geometry.getAttribute('color'));
+  const vertices: number[] = [];
+  const colors: number[] = [];
+  const v = new THREE.Vector3();
+
+  for (const mesh of meshes) {
+    const geometry = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry;
+    const position = geometry.getAttribute('position');
+    const color = geometry.getAttribute('color');
+    const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material;
+    const fallback = (material as THREE.MeshStandardMaterial | undefined)?.color ?? new THREE.Color(1, 1, 1);
+
+    for (let i = 0; i < position.count - (position.count % 3); i++) {
+      v.fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld);
+      vertices.push(v.x, v.y, v.z);
+      if (!hasColors) continue;
+      if (color) colors.push(color.getX(i), color.getY(i), color.getZ(i));
+      else colors.push(fallback.r, fallback.g, fallback.b);
+    }
+  }
+
+  if (vertices.length === 0) throw new Error("The model contains no triangles.");
+
+  // Centre on the bounding box and scale so the furthest vertex sits at radius 1
+  const box = new THREE.Box3().setFromArray(vertices);
+  const center = box.getCenter(new THREE.Vector3());
+  let maxDistSq = 0;
+  for (let i = 0; i < vertices.length; i += 3) {
+    vertices[i] -= center.x;
+    vertices[i + 1] -= center.y;
+    vertices[i + 2] -= center.z;
+    maxDistSq = Math.max(maxDistSq, vertices[i] ** 2 + vertices[i + 1] ** 2 + vertices[i + 2] ** 2);
+  }
+  const scale = 1 / Math.max(Math.sqrt(maxDistSq), 1e-6);
+  const normalized = new Float32Array(vertices.map(x => x * scale));
+
+  const triangleCount = normalized.length / 9;
+  const cumulativeArea = new Float64Array(triangleCount);
+  const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+  let total = 0;
+  for (let t = 0; t < triangleCount; t++) {
+    a.fromArray(normalized, t * 9);
+    b.fromArray(normalized, t * 9 + 3);
+    c.fromArray(normalized, t * 9 + 6);
+    total += new THREE.Triangle(a, b, c).getArea();
+    cumulativeArea[t] = total;
+  }
+  if (total === 0) throw new Error("The model's triangles have no area.");
+
+  return { vertices: normalized, colors: hasColors ? new Float32Array(colors) : null, cumulativeArea };
+};
+
+// --- Sampling ---
+
+// Uniform random points over the surface (bigger triangles get proportionally more)
+const sampleSurface = (mesh: TriangleMesh, count: number, radius: number, random: Random): ShapeTargets => {
+  const { vertices, colors: sourceColors, cumulativeArea } = mesh;
+  const positions = new Float32Array(count * 3);
+  const colors = sourceColors ? new Float32Array(count * 3) : null;
+  const total = cumulativeArea[cumulativeArea.length - 1];
+
+  for (let i = 0; i < count; i++) {
+    // Binary search for the triangle holding this slice of the total area
+    const target = random() * total;
+    let lo = 0, hi = cumulativeArea.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulativeArea[mid] < target) lo = mid + 1;
+      else hi = mid;
+    }
+
+    // Uniform barycentric coordinates
+    const r1 = Math.sqrt(random());
+    const r2 = random();
+    const wa = 1 - r1, wb = r1 * (1 - r2), wc = r1 * r2;
+    const o = lo * 9;
+    for (let k = 0; k < 3; k++) {
+      positions[i * 3 + k] = (vertices[o + k] * wa + vertices[o + 3 + k] * wb + vertices[o + 6 + k] * wc) * radius;
+      if (colors && sourceColors) {
+        colors[i * 3 + k] = sourceColors[o + k] * wa + sourceColors[o + 3 + k] * wb + sourceColors[o + 6 + k] * wc;
+      }
+    }
+  }
+  return { positions, colors };
+};
+
+/**
+ * Loads a model file into a formation for the shape registry.
+ * Particles are spread over the surface by area, fitted to the formation radius.
+ */
+export const importModelShape = async (file: File): Promise<ShapeDefinition> => {
+  const mesh = collectTriangles(await parseModel(file));
+  const label = file.name.replace(/\.[^.]+$/, '').toUpperCase();
+  return {
+    name: `MODEL_${label.replace(/[^A-Z0-9]+/g, '_')}`,
+    label,
+    voiceAliases: label.length >= 3 ? [label] : [],
+    generator: (count, radius, { random }) => sampleSurface(mesh, count, radius, random),
+  };
+};
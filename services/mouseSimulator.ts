@@ -0,0 +1,120 @@
+import { HandData, HandPose, HandTrackingProvider, SmoothingConfig, HandCalibration } from '../types';
+
+// Number keys 1-7 select a pose, 0 clears it
+const POSE_KEYS: Record<string, HandPose> = {
+  '0': HandPose.NONE,
+  '1': HandPose.OPEN_PALM,
+  '2': HandPose.FIST,
+  '3': HandPose.PINCH,
+  '4': HandPose.POINT,
+  '5': HandPose.PEACE,
+  '6': HandPose.THUMBS_UP,
+  '7': HandPose.OK,
+};
+
+const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max);
+
+// Fingertip directions (radians from straight up), thumb to pinky
+const FINGER_ANGLES = [-1.1, -0.35, 0, 0.3, 0.6];
+
+/**
+ * Fake single hand driven by the mouse, for machines without a webcam.
+ * Move = position, hold button over the scene = clench, wheel = depth,
+ * shift + wheel = finger spread, number keys = static pose.
+ */
+export class MouseHandSimulator implements HandTrackingProvider {
+  public readonly source = 'MOUSE' as const;
+  private onResultsCallback: (data: HandData) => void;
+  private animationFrameId: number | null = null;
+  private x: number = 0;
+  private y: number = 0;
+  private z: number = 0;
+  private spread: number = 1;
+  private isClenched: boolean = false;
+  private pose: HandPose = HandPose.NONE;
+
+  constructor(onResults: (data: HandData) => void) {
+    this.onResultsCallback = onResults;
+  }
+
+  public async initialize() {
+    console.log("Mouse hand simulator active");
+    window.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('pointerdown', this.handlePointerDown);
+    window.addEventListener('pointerup', this.handlePointerUp);
+    window.addEventListener('wheel', this.handleWheel, { passive: true });
+    window.addEventListener('keydown', this.handleKeyDown);
+    // Emit every frame like a camera would, so held-pose bindings keep ticking
+    this.animationFrameId = requestAnimationFrame(this.step);
+  }
+
+  // Simulated input is already noise-free and screen-mapped
+  public setSmoothing(_smoothing: SmoothingConfig) {}
+  public setCalibration(_calibration: HandCalibration) {}
+
+  private step = () => {
+    const spread = this.isClenched ? 0 : this.spread;
+    const pose = this.isClenched ? HandPose.FIST : this.pose;
+    const poseConfidence = pose === HandPose.NONE ? 0 : 1;
+    // A fan of fingertips above the cursor that opens with the spread
+    const reach = 0.05 + spread * 0.1;
+    const fingertips = FINGER_ANGLES.map(a => ({ x: this.x + Math.sin(a) * reach, y: this.y + Math.cos(a) * reach }));
+
+    this.onResultsCallback({
+      x: this.x,
+      y: this.y,
+      z: this.z,
+      isDetected: true,
+      isClenched: this.isClenched,
+      handSpread: spread,
+      pose,
+      poseConfidence,
+      hands: [{
+        x: this.x, y: this.y, z: this.z,
+        isClenched: this.isClenched,
+        handSpread: spread,
+        handedness: 'Right',
+        score: 1,
+        pose,
+        poseConfidence,
+        fingertips,
+      }],
+    });
+    this.animationFrameId = requestAnimationFrame(this.step);
+  };
+
+  private handlePointerMove = (e: PointerEvent) => {
+    this.x = (e.clientX / window.innerWidth) * 2 - 1;
+    this.y = -((e.clientY / window.innerHeight) * 2 - 1);
+  };
+
+  // Only clicks on the 3D scene clench, so the UI stays usable
+  private handlePointerDown = (e: PointerEvent) => {
+    if (e.target instanceof HTMLCanvasElement) this.isClenched = true;
+  };
+
+  private handlePointerUp = () => {
+    this.isClenched = false;
+  };
+
+  private handleWheel = (e: WheelEvent) => {
+    if (!(e.target instanceof HTMLCanvasElement)) return;
+    if (e.shiftKey) this.spread = clamp(this.spread - e.deltaY * 0.001, 0, 1);
+    else this.z = clamp(this.z - e.deltaY * 0.001, -1, 1);
+  };
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement || e.target instanceof HTMLTextAreaElement) return;
+    if (e.key in POSE_KEYS) this.pose = POSE_KEYS[e.key];
+  };
+
+  public stop() {
+    if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
+    this.animationFrameId = null;
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    window.removeEventListener('pointerdown', this.handlePointerDown);
+    window.removeEventListener('pointerup', this.handlePointerUp);
+    window.removeEventListener('wheel', this.handleWheel);
+    window.removeEventListener('keydown', this.handleKeyDown);
+  }
+}
@@ -0,0 +1,135 @@
+import * as THREE from 'three';
+import { ColorSettings, GradientAxis, GradientStop } from '../types';
+import { SPECTRUM_BANDS } from '../constants';
+
+// Per-particle base colours for the colour modes (see ColorMode). Colours are laid out by
+// target position, so they travel with particles as the formation changes.
+
+const TABLE_SIZE = 256; // Gradient and hue lookup entries
+
+const _a = new THREE.Color();
+const _b = new THREE.Color();
+
+// Linear rgb at TABLE_SIZE evenly spaced points along the stops
+export const gradientTable = (stops: GradientStop[]): Float32Array => {
+  const sorted = [...stops].sort((a, b) => a.position - b.position);
+  const table = new Float32Array(TABLE_SIZE * 3);
+  if (sorted.length === 0) return table.fill(1);
+  let segment = 0;
+  for (let k = 0; k < TABLE_SIZE; k++) {
+    const t = k / (TABLE_SIZE - 1);
+    while (segment < sorted.length - 1 && sorted[segment + 1].position < t) segment++;
+    const from = sorted[segment];
+    const to = sorted[Math.min(segment + 1, sorted.length - 1)];
+    const span = to.position - from.position;
+    const local = span > 0 ? THREE.MathUtils.clamp((t - from.position) / span, 0, 1) : 0;
+    _a.set(from.color).lerp(_b.set(to.color), local);
+    table[k * 3] = _a.r;
+    table[k * 3 + 1] = _a.g;
+    table[k * 3 + 2] = _a.b;
+  }
+  return table;
+};
+
+const hueTable = (): Float32Array => {
+  const table = new Float32Array(TABLE_SIZE * 3);
+  for (let k = 0; k < TABLE_SIZE; k++) {
+    _a.setHSL(k / TABLE_SIZE, 1, 0.5, THREE.SRGBColorSpace);
+    table[k * 3] = _a.r;
+    table[k * 3 + 1] = _a.g;
+    table[k * 3 + 2] = _a.b;
+  }
+  return table;
+};
+
+const AXIS_INDEX: Record<Exclude<GradientAxis, 'RADIUS'>, number> = { X: 0, Y: 1, Z: 2 };
+
+// 0 - 1 per target along the axis (RADIUS: from the centre out)
+const normalizedCoordinates = (targets: Float32Array, axis: GradientAxis): Float32Array => {
+  const count = targets.length / 3;
+  const values = new Float32Array(count);
+  let min = axis === 'RADIUS' ? 0 : Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const v = axis === 'RADIUS'
+      ? Math.hypot(targets[i3], targets[i3 + 1], targets[i3 + 2])
+      : targets[i3 + AXIS_INDEX[axis]];
+    values[i] = v;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  const range = max - min || 1;
+  for (let i = 0; i < count; i++) values[i] = (values[i] - min) / range;
+  return values;
+};
+
+const lookup = (table: Float32Array, t: number, out: Float32Array, i3: number) => {
+  const k = Math.min(TABLE_SIZE - 1, Math.max(0, Math.round(t * (TABLE_SIZE - 1)))) * 3;
+  out[i3] = table[k];
+  out[i3 + 1] = table[k + 1];
+  out[i3 + 2] = table[k + 2];
+};
+
+/**
+ * Writes the colours of the static modes into `out` (rgb per particle). SPECTRUM starts
+ * at its quiet colour; animate it with spectrumBands() and applySpectrum().
+ */
+export const fillColorMode = (settings: ColorSettings, base: THREE.Color, targets: Float32Array, out: Float32Array) => {
+  const count = targets.length / 3;
+  switch (settings.mode) {
+    case 'GRADIENT': {
+      const table = gradientTable(settings.stops);
+      const coords = normalizedCoordinates(targets, settings.axis);
+      for (let i = 0; i < count; i++) lookup(table, coords[i], out, i * 3);
+      break;
+    }
+    case 'RAINBOW': {
+      const table = hueTable();
+      for (let i = 0; i < count; i++) lookup(table, i / count, out, i * 3);
+      break;
+    }
+    case 'DUAL_TONE': {
+      _b.set(settings.secondary);
+      for (let i = 0; i < count; i++) {
+        const c = i % 2 === 0 ? base : _b;
+        out[i * 3] = c.r;
+        out[i * 3 + 1] = c.g;
+        out[i * 3 + 2] = c.b;
+      }
+      break;
+    }
+    case 'SPECTRUM': {
+      const table = gradientTable(settings.stops);
+      for (let i = 0; i < count; i++) lookup(table, 0, out, i * 3);
+      break;
+    }
+    case 'SOLID':
+      for (let i = 0; i < count; i++) {
+        out[i * 3] = base.r;
+        out[i * 3 + 1] = base.g;
+        out[i * 3 + 2] = base.b;
+      }
+  }
+};
+
+// Audio band (0 - SPECTRUM_BANDS-1) for each target, by its place along the axis
+export const spectrumBands = (targets: Float32Array, axis: GradientAxis): Uint8Array => {
+  const coords = normalizedCoordinates(targets, axis);
+  const bands = new Uint8Array(coords.length);
+  for (let i = 0; i < coords.length; i++) bands[i] = Math.min(SPECTRUM_BANDS - 1, Math.floor(coords[i] * SPECTRUM_BANDS));
+  return bands;
+};
+
+const _bandColors = new Float32Array(SPECTRUM_BANDS * 3);
+
+// Colours each particle by the level of its band, looked up in a gradientTable()
+export const applySpectrum = (bands: Uint8Array, levels: Float32Array, table: Float32Array, out: Float32Array) => {
+  for (let b = 0; b < SPECTRUM_BANDS; b++) lookup(table, levels[b], _bandColors, b * 3);
+  for (let i = 0; i < bands.length; i++) {
+    const b3 = bands[i] * 3, i3 = i * 3;
+    out[i3] = _bandColors[b3];
+    out[i3 + 1] = _bandColors[b3 + 1];
+    out[i3 + 2] = _bandColors[b3 + 2];
+  }
+};
@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+
+// Soft, glowing point sprites with per-particle size, alpha and heat.
+// Moving particles are stretched into streaks along their screen-space velocity.
+
+const vertexShader = /* glsl */ `
+  attribute float aSize;
+  attribute float aAlpha;
+  attribute float aHeat;
+  attribute vec3 aVelocity;
+
+  uniform float uSize;
+  uniform float uHeatSize;
+  uniform float uStretch;
+  uniform float uMaxStretch;
+  uniform vec2 uResolution;
+
+  varying vec3 vColor;
+  varying float vAlpha;
+  varying float vHeat;
+  varying vec2 vDir;
+  varying float vStretch;
+
+  void main() {
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    vec4 clipStart = projectionMatrix * mvPosition;
+    gl_Position = clipStart;
+
+    // Same attenuation as THREE.PointsMaterial: world size -> pixels at this depth
+    float sizePx = uSize * aSize * (1.0 + aHeat * uHeatSize) * (uResolution.y * 0.5) / -mvPosition.z;
+
+    // Screen-space length of the motion over the last few frames
+    vec4 clipEnd = projectionMatrix * (modelViewMatrix * vec4(position + aVelocity * uStretch, 1.0));
+    vec2 delta = (clipEnd.xy / clipEnd.w - clipStart.xy / clipStart.w) * uResolution * 0.5;
+    float len = length(delta);
+
+    vStretch = clamp(1.0 + len / max(sizePx, 1.0), 1.0, uMaxStretch);
+    vDir = len > 1e-4 ? delta / len : vec2(1.0, 0.0);
+    gl_PointSize = sizePx * vStretch;
+
+    vColor = color;
+    vAlpha = aAlpha;
+    vHeat = aHeat;
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform vec3 uHotColor;
+  uniform float uOpacity;
+  uniform float uHeatGlow;
+
+  varying vec3 vColor;
+  varying float vAlpha;
+  varying float vHeat;
+  varying vec2 vDir;
+  varying float vStretch;
+
+  void main() {
+    // -1..1 across the sprite, y up like screen space
+    vec2 p = vec2(gl_PointCoord.x * 2.0 - 1.0, 1.0 - gl_PointCoord.y * 2.0);
+    // Ellipse: full length along the motion, squeezed across it
+    float along = dot(p, vDir);
+    float across = dot(p, vec2(-vDir.y, vDir.x)) * vStretch;
+    float r = length(vec2(along, across));
+    if (r > 1.0) discard;
+
+    // Bright core plus a soft glow falloff
+    float core = 1.0 - smoothstep(0.0, 0.35, r);
+    float glow = pow(1.0 - r, 2.0);
+    float intensity = core * 0.6 + glow * 0.6;
+
+    vec3 color = mix(vColor, uHotColor, vHeat) * (1.0 + vHeat * uHeatGlow);
+    gl_FragColor = vec4(color, intensity * vAlpha * uOpacity);
+  }
+`;
+
+export interface ParticleMaterialOptions {
+  size: number; // World units, like PointsMaterial.size
+  opacity: number;
+  hotColor: THREE.Color;
+  heatSize?: number; // Extra size at full heat (1 = double)
+  heatGlow?: number; // Extra brightness at full heat
+  stretch?: number; // Frames of motion a streak covers
+  maxStretch?: number; // Longest streak, in sprite widths
+}
+
+export const createParticleMaterial = ({ size, opacity, hotColor, heatSize = 0.8, heatGlow = 0.6, stretch = 6, maxStretch = 4 }: ParticleMaterialOptions) =>
+  new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    uniforms: {
+      uSize: { value: size },
+      uOpacity: { value: opacity },
+      uHotColor: { value: hotColor.clone() },
+      uHeatSize: { value: heatSize },
+      uHeatGlow: { value: heatGlow },
+      uStretch: { value: stretch },
+      uMaxStretch: { value: maxStretch },
+      uResolution: { value: new THREE.Vector2(1, 1) },
+    },
+    vertexColors: true,
+    transparent: true,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false,
+  });
+
+// Per-particle attributes the material reads. Size and alpha get a little random variation.
+export const addParticleAttributes = (geo: THREE.BufferGeometry, count: number, variation = 0.4) => {
+  const sizes = new Float32Array(count);
+  const alphas = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    sizes[i] = 1 + (Math.random() - 0.5) * 2 * variation;
+    alphas[i] = 1 - Math.random() * variation;
+  }
+  geo.setAttribute('aSize', new THREE.BufferAttribute(sizes, 1));
+  geo.setAttribute('aAlpha', new THREE.BufferAttribute(alphas, 1));
+  geo.setAttribute('aHeat', new THREE.BufferAttribute(new Float32Array(count), 1));
+  geo.setAttribute('aVelocity', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+  geo.setAttribute('color', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+};
+
+export const fillColor = (geo: THREE.BufferGeometry, color: THREE.Color) => {
+  const attr = geo.getAttribute('color') as THREE.BufferAttribute;
+  const colors = attr.array as Float32Array;
+  for (let i = 0; i < colors.length; i += 3) {
+    colors[i] = color.r;
+    colors[i + 1] = color.g;
+    colors[i + 2] = color.b;
+  }
+  attr.needsUpdate = true;
+};
+
+export const copyColors = (geo: THREE.BufferGeometry, colors: Float32Array) => {
+  const attr = geo.getAttribute('color') as THREE.BufferAttribute;
+  (attr.array as Float32Array).set(colors);
+  attr.needsUpdate = true;
+};
@@ -0,0 +1,213 @@
+// Particle physics kernel. Plain typed arrays only, so it runs in the physics worker
+// (see particlePhysics.worker.ts) or inline on the main thread as a fallback.
+// Noise comes from a seeded generator, so a run is reproducible from its seed and inputs.
+
+import type { ForceFieldKind } from '../types';
+import { Random, createRandom } from './random';
+import { ShapeTransition, TransitionSpec } from './transitions';
+
+// Palm + 5 fingertips per hand, two hands
+export const MAX_HAND_FORCES = 12;
+// Per force: line point (3), line direction (3), radius, signed strength
+export const FORCE_STRIDE = 8;
+
+// Stackable force fields (see services/forceFields.ts for how they are packed)
+export const MAX_FORCE_FIELDS = 8;
+// Per field: kind, strength, position (3), unit direction (3), radius, phase
+export const FIELD_STRIDE = 10;
+export const FIELD_KINDS: Record<ForceFieldKind, number> = { CURL_NOISE: 0, VORTEX: 1, GRAVITY_WELL: 2, WIND: 3, DRAG: 4 };
+
+export interface PhysicsStepParams {
+  steps: number; // Fixed timesteps to advance (see services/simulation.ts)
+  attraction: number;
+  damping: number;
+  noise: number;
+  audioTreble: number; // 0 - 1, makes particles run hot more easily
+  forces: Float32Array; // MAX_HAND_FORCES * FORCE_STRIDE, in particle (local) space
+  forceCount: number;
+  fields: Float32Array; // MAX_FORCE_FIELDS * FIELD_STRIDE, in particle (local) space
+  fieldCount: number;
+}
+
+// Output of one step, in buffers that move between threads
+export interface PhysicsFrame {
+  positions: Float32Array; // xyz per particle
+  velocities: Float32Array; // xyz per particle, units per frame
+  heat: Float32Array; // 0-1 per particle
+}
+
+export const createPhysicsFrame = (count: number): PhysicsFrame => ({
+  positions: new Float32Array(count * 3),
+  velocities: new Float32Array(count * 3),
+  heat: new Float32Array(count),
+});
+
+export const frameBuffers = (frame: PhysicsFrame): ArrayBuffer[] =>
+  [frame.positions.buffer as ArrayBuffer, frame.velocities.buffer as ArrayBuffer, frame.heat.buffer as ArrayBuffer];
+
+export class ParticleSimulation {
+  public readonly count: number;
+  private positions: Float32Array;
+  private velocities: Float32Array;
+  private targets: Float32Array;
+  private random: Random;
+  private transition: ShapeTransition | null = null;
+
+  constructor(positions: Float32Array, targets: Float32Array, seed: number) {
+    this.count = positions.length / 3;
+    this.positions = positions;
+    this.velocities = new Float32Array(positions.length);
+    this.targets = targets;
+    this.random = createRandom(seed);
+  }
+
+  // Without a transition, particles head straight for the new targets
+  public setTargets(targets: Float32Array, transition: TransitionSpec | null = null) {
+    if (targets.length !== this.positions.length) return;
+    this.targets = targets;
+    this.transition = transition && transition.steps > 0
+      ? new ShapeTransition(transition, this.positions, targets, this.random)
+      : null;
+  }
+
+  // Advances params.steps timesteps and writes positions, velocities and heat (0-1) into the output buffers
+  public step(params: PhysicsStepParams, outPositions: Float32Array, outVelocities: Float32Array, outHeat: Float32Array) {
+    for (let s = 0; s < params.steps; s++) this.advance(params, outHeat);
+    outPositions.set(this.positions);
+    outVelocities.set(this.velocities);
+  }
+
+  private advance(params: PhysicsStepParams, outHeat: Float32Array) {
+    const { attraction, damping, noise, audioTreble, forces, forceCount, fields, fieldCount } = params;
+    const positions = this.positions;
+    const vels = this.velocities;
+    let targets = this.targets;
+    if (this.transition) {
+      const moving = this.transition.next();
+      if (moving) targets = moving;
+      else this.transition = null;
+    }
+    const random = this.random;
+
+    for (let i = 0; i < this.count; i++) {
+      const i3 = i * 3;
+      const tx = targets[i3];
+      const ty = targets[i3 + 1];
+      const tz = targets[i3 + 2];
+
+      // Standard Attraction Physics
+      const ax = (tx - positions[i3]) * attraction;
+      const ay = (ty - positions[i3 + 1]) * attraction;
+      const az = (tz - positions[i3 + 2]) * attraction;
+
+      const nx = (random() - 0.5) * noise;
+      const ny = (random() - 0.5) * noise;
+      const nz = (random() - 0.5) * noise;
+
+      vels[i3] += ax + nx;
+      vels[i3 + 1] += ay + ny;
+      vels[i3 + 2] += az + nz;
+
+      // Hand fields: push away from (or pull towards) the column, fading out at its radius.
+      // The attraction above springs displaced particles back once the hand moves on.
+      for (let f = 0; f < forceCount; f++) {
+        const o = f * FORCE_STRIDE;
+        const vx = positions[i3] - forces[o];
+        const vy = positions[i3 + 1] - forces[o + 1];
+        const vz = positions[i3 + 2] - forces[o + 2];
+        const along = vx * forces[o + 3] + vy * forces[o + 4] + vz * forces[o + 5];
+        const px = vx - along * forces[o + 3];
+        const py = vy - along * forces[o + 4];
+        const pz = vz - along * forces[o + 5];
+        const distSq = px * px + py * py + pz * pz;
+        const radius = forces[o + 6];
+        if (distSq >= radius * radius || distSq < 1e-6) continue;
+
+        const dist = Math.sqrt(distSq);
+        const falloff = 1 - dist / radius;
+        const push = (forces[o + 7] * falloff * falloff) / dist;
+        vels[i3] += px * push;
+        vels[i3 + 1] += py * push;
+        vels[i3 + 2] += pz * push;
+      }
+
+      // Force fields
+      let drag = damping;
+      for (let f = 0; f < fieldCount; f++) {
+        const o = f * FIELD_STRIDE;
+        const strength = fields[o + 1];
+        switch (fields[o]) {
+          case FIELD_KINDS.CURL_NOISE: {
+            // Curl of a trigonometric vector potential: divergence-free, so it swirls
+            // rather than clumping. The phase makes the flow evolve over time.
+            const freq = 1 / Math.max(fields[o + 8], 0.1);
+            const phase = fields[o + 9];
+            const x = positions[i3] * freq, y = positions[i3 + 1] * freq, z = positions[i3 + 2] * freq;
+            const sy1 = Math.sin(y + phase), cy1 = Math.cos(y + phase);
+            const sz2 = Math.sin(z - phase * 1.3), cz2 = Math.cos(z - phase * 1.3);
+            const sz3 = Math.sin(z + phase * 0.7), cz3 = Math.cos(z + phase * 0.7);
+            const sx4 = Math.sin(x - phase * 0.9), cx4 = Math.cos(x - phase * 0.9);
+            const sx5 = Math.sin(x + phase * 1.1), cx5 = Math.cos(x + phase * 1.1);
+            const sy6 = Math.sin(y - phase * 0.5), cy6 = Math.cos(y - phase * 0.5);
+            // A = (sin(y)cos(z), sin(z)cos(x), sin(x)cos(y)) with per-term phases
+            vels[i3] += (-sx5 * sy6 - cz3 * cx4) * strength;
+            vels[i3 + 1] += (-sy1 * sz2 - cx5 * cy6) * strength;
+            vels[i3 + 2] += (-sz3 * sx4 - cy1 * cz2) * strength;
+            break;
+          }
+          case FIELD_KINDS.VORTEX: {
+            // Spin around the axis, fading out at the radius
+            const ax = fields[o + 5], ay = fields[o + 6], az = fields[o + 7];
+            const vx = positions[i3] - fields[o + 2];
+            const vy = positions[i3 + 1] - fields[o + 3];
+            const vz = positions[i3 + 2] - fields[o + 4];
+            const along = vx * ax + vy * ay + vz * az;
+            const px = vx - along * ax, py = vy - along * ay, pz = vz - along * az;
+            const dist = Math.sqrt(px * px + py * py + pz * pz);
+            const radius = fields[o + 8];
+            if (radius > 0 && dist >= radius) break;
+            const spin = strength * (radius > 0 ? 1 - dist / radius : 1) / Math.max(dist, 0.5);
+            vels[i3] += (ay * pz - az * py) * spin;
+            vels[i3 + 1] += (az * px - ax * pz) * spin;
+            vels[i3 + 2] += (ax * py - ay * px) * spin;
+            break;
+          }
+          case FIELD_KINDS.GRAVITY_WELL: {
+            // Full strength at the centre, falling off with the square of distance / radius
+            const vx = fields[o + 2] - positions[i3];
+            const vy = fields[o + 3] - positions[i3 + 1];
+            const vz = fields[o + 4] - positions[i3 + 2];
+            const distSq = vx * vx + vy * vy + vz * vz;
+            const radius = Math.max(fields[o + 8], 0.1);
+            const pull = strength / (1 + distSq / (radius * radius)) / Math.max(Math.sqrt(distSq), 0.1);
+            vels[i3] += vx * pull;
+            vels[i3 + 1] += vy * pull;
+            vels[i3 + 2] += vz * pull;
+            break;
+          }
+          case FIELD_KINDS.WIND:
+            vels[i3] += fields[o + 5] * strength;
+            vels[i3 + 1] += fields[o + 6] * strength;
+            vels[i3 + 2] += fields[o + 7] * strength;
+            break;
+          case FIELD_KINDS.DRAG:
+            drag *= 1 - Math.min(Math.max(strength, 0), 1);
+            break;
+        }
+      }
+
+      vels[i3] *= drag;
+      vels[i3 + 1] *= drag;
+      vels[i3 + 2] *= drag;
+
+      positions[i3] += vels[i3];
+      positions[i3 + 1] += vels[i3 + 1];
+      positions[i3 + 2] += vels[i3 + 2];
+
+      // Heat: fast particles glow hot (colour, size and brightness in the shader).
+      // Audio treble makes particles hotter easier
+      const speed = Math.sqrt(vels[i3] ** 2 + vels[i3 + 1] ** 2 + vels[i3 + 2] ** 2);
+      outHeat[i] = Math.min((speed * 3.0) + (audioTreble * 0.5), 1);
+    }
+  }
+}
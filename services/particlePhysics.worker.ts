@@ -0,0 +1,26 @@
+import { ParticleSimulation, frameBuffers } from './particlePhysics';
+import type { PhysicsWorkerRequest, PhysicsWorkerResponse } from './particleWorker';
+
+// Physics worker entry: owns the simulation state, returns each frame in the buffers it was lent
+
+let simulation: ParticleSimulation | null = null;
+
+self.onmessage = (e: MessageEvent<PhysicsWorkerRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'init':
+      simulation = new ParticleSimulation(msg.positions, msg.targets, msg.seed);
+      break;
+    case 'targets':
+      simulation?.setTargets(msg.targets, msg.transition);
+      break;
+    case 'step': {
+      // Messages arrive in order, so a step always follows its epoch's init
+      const { frame } = msg;
+      simulation?.step(msg.params, frame.positions, frame.velocities, frame.heat);
+      const response: PhysicsWorkerResponse = { type: 'frame', epoch: msg.epoch, frame };
+      self.postMessage(response, { transfer: frameBuffers(frame) });
+      break;
+    }
+  }
+};
@@ -0,0 +1,106 @@
+import { ParticleSimulation, PhysicsStepParams, PhysicsFrame, createPhysicsFrame, frameBuffers } from './particlePhysics';
+import type { TransitionSpec } from './transitions';
+
+export type PhysicsWorkerRequest =
+  | { type: 'init'; positions: Float32Array; targets: Float32Array; seed: number }
+  | { type: 'targets'; targets: Float32Array; transition: TransitionSpec | null }
+  | { type: 'step'; epoch: number; params: PhysicsStepParams; frame: PhysicsFrame };
+
+export type PhysicsWorkerResponse =
+  { type: 'frame'; epoch: number; frame: PhysicsFrame };
+
+/**
+ * Runs the particle simulation in a Web Worker.
+ * One set of output buffers ping-pongs between the threads (transferred, never copied
+ * across), so at most one step is in flight and the render loop never waits for it.
+ * Steps inline instead when workers are unavailable (or not wanted, e.g. headless runs).
+ */
+export class ParticleWorkerService {
+  private worker: Worker | null = null;
+  private inline: ParticleSimulation | null = null;
+  // Bumped on every init so frames from a previous particle count are dropped
+  private epoch: number = 0;
+  // Free output buffers (null while lent to the worker)
+  private out: PhysicsFrame | null = null;
+  private latest: PhysicsFrame | null = null;
+
+  constructor(useWorker = true) {
+    if (!useWorker) return;
+    try {
+      this.worker = new Worker(new URL('./particlePhysics.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = this.handleMessage;
+      this.worker.onerror = (e) => console.error("Physics worker error:", e);
+    } catch (e) {
+      console.warn("Web Workers unavailable, running physics on the main thread", e);
+    }
+  }
+
+  // Takes ownership of both arrays
+  public init(positions: Float32Array, targets: Float32Array, seed: number) {
+    this.epoch++;
+    this.out = createPhysicsFrame(positions.length / 3);
+    this.latest = null;
+
+    if (this.worker) {
+      this.post({ type: 'init', positions, targets, seed }, [positions.buffer, targets.buffer]);
+    } else {
+      this.inline = new ParticleSimulation(positions, targets, seed);
+    }
+  }
+
+  // Takes ownership of the array
+  public setTargets(targets: Float32Array, transition: TransitionSpec | null = null) {
+    if (this.worker) this.post({ type: 'targets', targets, transition }, [targets.buffer]);
+    else this.inline?.setTargets(targets, transition);
+  }
+
+  // Starts the next step unless one is still running
+  public requestStep(params: PhysicsStepParams) {
+    const frame = this.out;
+    if (!frame) return;
+
+    if (!this.worker) {
+      this.inline?.step(params, frame.positions, frame.velocities, frame.heat);
+      this.latest = frame;
+      return;
+    }
+
+    this.out = null;
+    // The forces and fields arrays are tiny and reused by the caller, so they are copied rather than transferred
+    this.post(
+      { type: 'step', epoch: this.epoch, params: { ...params, forces: params.forces.slice(), fields: params.fields.slice() }, frame },
+      frameBuffers(frame)
+    );
+  }
+
+  // Copies the newest finished step into the render buffers. Returns false if there is none.
+  public consumeFrame(target: PhysicsFrame): boolean {
+    const frame = this.latest;
+    if (!frame || frame.positions.length !== target.positions.length) return false;
+    target.positions.set(frame.positions);
+    target.velocities.set(frame.velocities);
+    target.heat.set(frame.heat);
+    this.latest = null;
+    // Hand the buffers back for the next step
+    this.out = frame;
+    return true;
+  }
+
+  public dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.inline = null;
+    this.out = null;
+    this.latest = null;
+  }
+
+  private post(msg: PhysicsWorkerRequest, transfer: Transferable[]) {
+    this.worker?.postMessage(msg, transfer);
+  }
+
+  private handleMessage = (e: MessageEvent<PhysicsWorkerResponse>) => {
+    const msg = e.data;
+    if (msg.type !== 'frame' || msg.epoch !== this.epoch) return;
+    this.latest = msg.frame;
+  };
+}
@@ -0,0 +1,89 @@
+import * as THREE from 'three';
+import { ImageSampling, ShapeTargets } from '../types';
+import { Random } from './random';
+
+// Rasterised images (imports, text) turned into particle targets
+
+const BRIGHTNESS_THRESHOLD = 0.1; // Darker pixels get no particles
+const ALPHA_THRESHOLD = 0.5;
+
+// Downscaled pixels, colours already converted to linear for the renderer
+export interface PixelGrid {
+  width: number;
+  height: number;
+  colors: Float32Array; // rgb per pixel
+  luminance: Float32Array; // 0-1 per pixel
+  alpha: Float32Array; // 0-1 per pixel
+}
+
+export const readPixels = (ctx: CanvasRenderingContext2D, width: number, height: number): PixelGrid => {
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const count = width * height;
+  const colors = new Float32Array(count * 3);
+  const luminance = new Float32Array(count);
+  const alpha = new Float32Array(count);
+  const color = new THREE.Color();
+
+  for (let i = 0; i < count; i++) {
+    const r = data[i * 4] / 255, g = data[i * 4 + 1] / 255, b = data[i * 4 + 2] / 255;
+    luminance[i] = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    alpha[i] = data[i * 4 + 3] / 255;
+    color.setRGB(r, g, b, THREE.SRGBColorSpace);
+    colors[i * 3] = color.r;
+    colors[i * 3 + 1] = color.g;
+    colors[i * 3 + 2] = color.b;
+  }
+  return { width, height, colors, luminance, alpha };
+};
+
+/**
+ * Spreads particles over an image, weighted by brightness or coverage.
+ * The longest side spans 1.5x the radius (like TEXT); relief pushes bright pixels forward.
+ */
+export const samplePixels = (grid: PixelGrid, count: number, radius: number, { mode, relief }: ImageSampling, random: Random = Math.random): ShapeTargets => {
+  const { width, height, luminance, alpha } = grid;
+
+  // Running total of pixel weights, for weighted picking
+  const cumulative = new Float64Array(width * height);
+  let total = 0;
+  for (let i = 0; i < cumulative.length; i++) {
+    const weight = mode === 'ALPHA'
+      ? (alpha[i] > ALPHA_THRESHOLD ? 1 : 0)
+      : (luminance[i] > BRIGHTNESS_THRESHOLD ? luminance[i] * alpha[i] : 0);
+    total += weight;
+    cumulative[i] = total;
+  }
+  // Nothing passes the threshold (e.g. an all-black image): use every pixel
+  const uniform = total === 0;
+  if (uniform) total = cumulative.length;
+
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const scale = (radius * 1.5) / Math.max(width, height);
+
+  for (let i = 0; i < count; i++) {
+    const target = random() * total;
+    let pixel: number;
+    if (uniform) {
+      pixel = Math.min(Math.floor(target), cumulative.length - 1);
+    } else {
+      let lo = 0, hi = cumulative.length - 1;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (cumulative[mid] < target) lo = mid + 1;
+        else hi = mid;
+      }
+      pixel = lo;
+    }
+
+    const px = pixel % width;
+    const py = Math.floor(pixel / width);
+    positions[i * 3] = (px + random() - width / 2) * scale;
+    positions[i * 3 + 1] = -(py + random() - height / 2) * scale; // Flip Y
+    positions[i * 3 + 2] = (luminance[pixel] - 0.5) * relief * radius + (random() - 0.5) * radius * 0.05;
+    colors[i * 3] = grid.colors[pixel * 3];
+    colors[i * 3 + 1] = grid.colors[pixel * 3 + 1];
+    colors[i * 3 + 2] = grid.colors[pixel * 3 + 2];
+  }
+  return { positions, colors };
+};
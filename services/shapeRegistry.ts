@@ -0,0 +1,49 @@
+import { ParticleShape, ShapeDefinition, ShapeParams, ShapeTargets } from '../types';
+import { BUILTIN_SHAPES } from './builtinShapes';
+
+/*
+ * Formation registry. The FORMATION panel, gesture bindings and voice commands all
+ * discover shapes from here, so a custom formation is a single module:
+ *
+ *   registerShape({ name: 'HEART', label: 'HEART', voiceAliases: ['LOVE'], generator: (count, radius) => ... });
+ */
+
+let shapes: ShapeDefinition[] = [...BUILTIN_SHAPES];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Shape names are stored upper-case, like the built-in ones
+const normalizeName = (name: string) => name.toUpperCase();
+
+// Registering an existing name replaces that shape
+export const registerShape = (definition: ShapeDefinition) => {
+  const name = normalizeName(definition.name);
+  const entry = { ...definition, name };
+  const index = shapes.findIndex(s => s.name === name);
+  shapes = index >= 0 ? shapes.map((s, i) => i === index ? entry : s) : [...shapes, entry];
+  notify();
+};
+
+export const unregisterShape = (name: string) => {
+  const normalized = normalizeName(name);
+  shapes = shapes.filter(s => s.name !== normalized);
+  notify();
+};
+
+export const getShape = (name: string): ShapeDefinition | undefined => shapes.find(s => s.name === name);
+
+// Stable between changes (usable with useSyncExternalStore)
+export const listShapes = (): ShapeDefinition[] => shapes;
+
+export const subscribeShapes = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Runs a shape's generator. Unknown names (e.g. an unregistered module) fall back to BIG_BANG.
+export const generateShape = (name: string, count: number, radius: number, params: ShapeParams): ShapeTargets => {
+  const definition = getShape(name) ?? getShape(ParticleShape.BIG_BANG)!;
+  const result = definition.generator(count, radius, params);
+  return result instanceof Float32Array ? { positions: result, colors: null } : result;
+};
@@ -0,0 +1,308 @@
+import * as THREE from 'three';
+import { AudioData, ContinuousBinding, HandData, ParticleShape, ShapeParams, ShapeTargets, TransitionSettings, ForceField, GroupLayout, PhysicsSettings } from '../types';
+import { CAMERA_CONFIG, DEFAULT_BINDINGS, DEFAULT_FORCE_FIELDS, DEFAULT_GROUP_LAYOUT, DEFAULT_PHYSICS, DEFAULT_IMAGE_SAMPLING, DEFAULT_TEXT_SETTINGS, DEFAULT_TRANSITION, HAND_FORCE } from '../constants';
+import { evaluateContinuous } from './gestureBindings';
+import { generateShape } from './shapeRegistry';
+import { FIELD_STRIDE, FORCE_STRIDE, MAX_FORCE_FIELDS, MAX_HAND_FORCES, PhysicsFrame, createPhysicsFrame } from './particlePhysics';
+import { packForceFields } from './forceFields';
+import { ParticleWorkerService } from './particleWorker';
+import { Random, createRandom } from './random';
+import { assignTargets, reorder } from './targetAssignment';
+
+export const FIXED_DT = 1 / 60; // Seconds per simulation step (the tuning below assumes 60 Hz)
+const MAX_STEPS_PER_UPDATE = 4; // After a long stall, catch up this far and drop the rest
+const FORMATION_RADIUS = 10;
+
+// For formations that ignore shape params
+export const DEFAULT_SHAPE_PARAMS: Omit<ShapeParams, 'random'> = {
+  text: DEFAULT_TEXT_SETTINGS,
+  numIndex: 0,
+  drawing: null,
+  imageSampling: DEFAULT_IMAGE_SAMPLING,
+};
+
+const _rayPoint = new THREE.Vector3();
+const _rayOrigin = new THREE.Vector3();
+const _scale = new THREE.Vector3();
+const _up = new THREE.Vector3(0, 1, 0);
+
+export interface SimulationOptions {
+  count: number;
+  seed: number;
+  camera?: THREE.Camera; // Used to project hands into the scene; defaults to the app's camera setup
+}
+
+/**
+ * Framework-free particle simulation: target generation, hand/audio-driven transforms,
+ * hand and ambient force fields and a fixed-timestep physics step. Needs no WebGL or DOM, so it
+ * runs in Node (TEXT formations excepted). Given the same seed, shapes and inputs,
+ * every run produces the same frames.
+ *
+ * ParticleSystem renders it: it points geometry at `frame` and copies the transforms.
+ * Physics steps inline unless a worker is attached with setPhysics().
+ */
+export class SimulationCore {
+  public count: number;
+  public readonly seed: number;
+  // Latest positions, velocities and heat (replaced by resize())
+  public frame: PhysicsFrame;
+  // Where the group sits in the scene (from `layout`); parent of formation and aura
+  public readonly placement = new THREE.Object3D();
+  // Rotation, dolly and scale of the formation and of the aura around it
+  public readonly formation = new THREE.Object3D();
+  public readonly aura = new THREE.Object3D();
+
+  public camera: THREE.Camera;
+  public continuousBindings: ContinuousBinding[] = DEFAULT_BINDINGS.continuous;
+  // Stacked on every step (see services/forceFields.ts)
+  public forceFields: ForceField[] = DEFAULT_FORCE_FIELDS;
+  // How the next setShape() moves particles to the new formation
+  public transition: TransitionSettings = DEFAULT_TRANSITION;
+  public layout: GroupLayout = DEFAULT_GROUP_LAYOUT;
+  public physicsSettings: PhysicsSettings = DEFAULT_PHYSICS;
+  // Steers rotation while no hand is tracked (-1..1, like R3F's state.mouse)
+  public pointer = { x: 0, y: 0 };
+
+  private random: Random;
+  private physics: ParticleWorkerService;
+  private targets: Float32Array;
+  // Current formation, regenerated on resize()
+  private shape: string = ParticleShape.BIG_BANG;
+  private shapeParams: Omit<ShapeParams, 'random'> = DEFAULT_SHAPE_PARAMS;
+  private forces = new Float32Array(MAX_HAND_FORCES * FORCE_STRIDE);
+  private fields = new Float32Array(MAX_FORCE_FIELDS * FIELD_STRIDE);
+  private time = 0;
+  private accumulator = 0;
+
+  constructor({ count, seed, camera }: SimulationOptions) {
+    this.count = count;
+    this.seed = seed;
+    this.random = createRandom(seed);
+    this.camera = camera ?? SimulationCore.defaultCamera();
+    this.placement.add(this.formation, this.aura);
+
+    this.frame = createPhysicsFrame(count);
+    this.frame.positions.set(this.generate(ParticleShape.BIG_BANG).positions);
+    this.targets = this.frame.positions.slice();
+
+    this.physics = new ParticleWorkerService(false);
+    this.physics.init(this.frame.positions.slice(), this.targets.slice(), seed);
+  }
+
+  // Swaps the physics backend (e.g. a worker), continuing from the current frame
+  public setPhysics(physics: ParticleWorkerService) {
+    this.physics = physics;
+    physics.init(this.frame.positions.slice(), this.targets.slice(), this.seed);
+  }
+
+  // Generates the named formation as the new targets, each paired with the nearest particle.
+  // Returns them (in particle order) with any source colours.
+  public setShape(shape: string, params: Omit<ShapeParams, 'random'>): ShapeTargets {
+    this.shape = shape;
+    this.shapeParams = params;
+    const targets = this.assign();
+    const { style, duration, easing } = this.transition;
+    const steps = Math.round(duration / FIXED_DT);
+    this.physics.setTargets(targets.positions.slice(), style === 'DIRECT' || steps === 0 ? null : { style, easing, steps });
+    return targets;
+  }
+
+  /**
+   * Advances by dt seconds in whole FIXED_DT steps (the remainder carries over).
+   * Returns true if `frame` changed.
+   */
+  public step(hand: HandData, audio: AudioData, dt: number): boolean {
+    this.accumulator = Math.min(this.accumulator + dt, FIXED_DT * MAX_STEPS_PER_UPDATE);
+    let steps = 0;
+    while (this.accumulator >= FIXED_DT) {
+      this.accumulator -= FIXED_DT;
+      this.time += FIXED_DT;
+      this.updateTransforms(hand, audio);
+      steps++;
+    }
+
+    // Show the newest finished step, then queue the next one with this step's inputs.
+    // Inline physics finishes immediately, so check again afterwards.
+    let changed = this.physics.consumeFrame(this.frame);
+    if (steps > 0) {
+      const { attraction, damping, noise } = this.physicsSettings;
+      this.physics.requestStep({
+        steps,
+        attraction,
+        damping,
+        noise: noise + (audio.treble * 0.1),
+        audioTreble: audio.treble,
+        forces: this.forces,
+        forceCount: this.updateHandForces(hand),
+        fields: this.fields,
+        fieldCount: packForceFields(this.forceFields, audio, this.time, this.fields),
+      });
+    }
+    changed = this.physics.consumeFrame(this.frame) || changed;
+    return changed;
+  }
+
+  /**
+   * Changes the particle count without disturbing the formation: existing particles stay
+   * where they are (dropping some thins it out evenly) and added ones start on top of
+   * random existing particles. Returns the current formation's targets for the new count.
+   */
+  public resize(count: number): ShapeTargets {
+    const previous = this.frame;
+    const kept = Math.min(count, this.count);
+    const frame = createPhysicsFrame(count);
+    frame.positions.set(previous.positions.subarray(0, kept * 3));
+    frame.velocities.set(previous.velocities.subarray(0, kept * 3));
+    frame.heat.set(previous.heat.subarray(0, kept));
+    for (let i = kept; i < count; i++) {
+      const source = Math.floor(this.random() * this.count) * 3;
+      frame.positions.set(previous.positions.subarray(source, source + 3), i * 3);
+    }
+
+    this.count = count;
+    this.frame = frame;
+    const targets = this.assign();
+    this.physics.init(frame.positions.slice(), targets.positions.slice(), this.seed);
+    return targets;
+  }
+
+  public dispose() {
+    this.physics.dispose();
+  }
+
+  // Targets for the current formation, each paired with the nearest particle
+  private assign(): ShapeTargets {
+    const generated = this.generate(this.shape, this.shapeParams);
+    const order = assignTargets(this.frame.positions, generated.positions);
+    const targets: ShapeTargets = {
+      positions: reorder(generated.positions, order),
+      colors: generated.colors && reorder(generated.colors, order),
+    };
+    this.targets = targets.positions;
+    return targets;
+  }
+
+  private generate(shape: string, params: Omit<ShapeParams, 'random'> = DEFAULT_SHAPE_PARAMS) {
+    return generateShape(shape, this.count, FORMATION_RADIUS, { ...params, random: this.random });
+  }
+
+  // --- Transforms ---
+
+  private updateTransforms(hand: HandData, audio: AudioData) {
+    const { x: handX, y: handY, z: handZ, isDetected, handSpread, hands } = hand;
+    const formation = this.formation;
+
+    const { position, scale, orbit } = this.layout;
+    this.placement.position.set(...position).applyAxisAngle(_up, this.time * orbit);
+    this.placement.scale.setScalar(scale);
+
+    // --- Bimanual Mode ---
+    // With two hands up, the midpoint steers rotation, the palm distance "stretches"
+    // the hologram and the angle of the line between the palms rolls it.
+    const isBimanual = hands.length >= 2;
+    let steerX = handX;
+    let steerY = handY;
+    let steerZ = handZ;
+    let bimanualRoll = 0;
+    let bimanualScale = 1.0;
+
+    if (isBimanual) {
+      // Order left-to-right on screen so the roll angle stays within -PI/2..PI/2
+      const [left, right] = hands[0].x <= hands[1].x ? [hands[0], hands[1]] : [hands[1], hands[0]];
+      const dx = right.x - left.x;
+      const dy = right.y - left.y;
+      const palmDistance = Math.sqrt(dx * dx + dy * dy);
+
+      steerX = (left.x + right.x) / 2;
+      steerY = (left.y + right.y) / 2;
+      steerZ = (left.z + right.z) / 2;
+      bimanualRoll = Math.atan2(dy, dx);
+      // Palms together (~0.2) -> 0.3, arms wide (~1.8) -> 2.0
+      bimanualScale = THREE.MathUtils.clamp(0.3 + (palmDistance - 0.2) * 1.06, 0.3, 2.0);
+    }
+
+    // User-configurable hand -> parameter mapping (defaults: X rotates Y, Y rotates X, spread scales, depth dollies)
+    const bound = isDetected ? evaluateContinuous(this.continuousBindings, { x: steerX, y: steerY, z: steerZ, spread: handSpread }) : {};
+
+    // Rotation Logic
+    const targetRotX = isDetected ? (bound.ROTATE_X ?? 0) : (this.pointer.y * 1.0);
+    const targetRotY = isDetected ? (bound.ROTATE_Y ?? 0) : (this.pointer.x * 1.0) + (this.time * 0.05); // Auto rotate slightly
+    const targetRotZ = isBimanual ? bimanualRoll : (bound.ROLL ?? 0);
+
+    formation.rotation.x = THREE.MathUtils.lerp(formation.rotation.x, targetRotX, 0.1);
+    formation.rotation.y = THREE.MathUtils.lerp(formation.rotation.y, targetRotY, 0.1);
+    formation.rotation.z = THREE.MathUtils.lerp(formation.rotation.z, targetRotZ, 0.1);
+
+    // Depth Logic: push/pull along the view axis, independent of the spread-driven scale
+    const targetPosZ = bound.DOLLY ?? 0;
+    formation.position.z = THREE.MathUtils.lerp(formation.position.z, targetPosZ, 0.08);
+
+    // Scaling Logic:
+    // If tracking one hand: Bound signal, by default spread: 0.3 (Closed Fist) to 1.5 (Wide Open)
+    // If tracking two hands: Driven by palm distance (see above)
+    // If not tracking: Default to 1.0
+    const baseScale = isBimanual ? bimanualScale : (bound.SCALE ?? 1.0);
+    const audioScale = audio.bass * 0.4; // Bass expands the model
+    const targetScale = baseScale + audioScale;
+    const lerpSpeed = 0.08;
+
+    formation.scale.lerp(_scale.setScalar(targetScale), lerpSpeed);
+
+    // Aura follows
+    this.aura.rotation.set(formation.rotation.x * 0.8, formation.rotation.y * 0.8, formation.rotation.z * 0.8);
+    this.aura.position.z = formation.position.z;
+    // Aura pulses more with audio
+    const auraScale = targetScale * (1 + audio.bass * 0.5);
+    this.aura.scale.lerp(_scale.setScalar(auraScale), lerpSpeed);
+  }
+
+  // --- Hand Force Field ---
+  // Each palm/fingertip acts along the camera ray through it (a column in particle space),
+  // so it reaches the particles you see under your hand regardless of their depth.
+  private updateHandForces(hand: HandData): number {
+    if (!hand.isDetected) return 0;
+    const formation = this.formation;
+    const camera = this.camera;
+    const forces = this.forces;
+    this.placement.updateMatrixWorld();
+    camera.updateMatrixWorld();
+    let forceCount = 0;
+
+    const addHandForce = (sx: number, sy: number, field: { radius: number; strength: number }, sign: number) => {
+      if (forceCount >= MAX_HAND_FORCES) return;
+      _rayOrigin.setFromMatrixPosition(camera.matrixWorld);
+      _rayPoint.set(sx, sy, 0.5).unproject(camera);
+      formation.worldToLocal(_rayOrigin);
+      formation.worldToLocal(_rayPoint);
+      _rayPoint.sub(_rayOrigin).normalize();
+      // Fields are sized in world units; particles live in the scaled local space
+      const invScale = 1 / (formation.scale.x * this.placement.scale.x);
+      const o = forceCount * FORCE_STRIDE;
+      forces[o] = _rayOrigin.x;
+      forces[o + 1] = _rayOrigin.y;
+      forces[o + 2] = _rayOrigin.z;
+      forces[o + 3] = _rayPoint.x;
+      forces[o + 4] = _rayPoint.y;
+      forces[o + 5] = _rayPoint.z;
+      forces[o + 6] = field.radius * invScale;
+      forces[o + 7] = field.strength * invScale * sign;
+      forceCount++;
+    };
+
+    for (const tracked of hand.hands) {
+      // Open hand repels, fist attracts
+      const sign = tracked.isClenched ? -1 : 1;
+      addHandForce(tracked.x, tracked.y, HAND_FORCE.palm, sign);
+      for (const tip of tracked.fingertips) addHandForce(tip.x, tip.y, HAND_FORCE.fingertip, sign);
+    }
+    return forceCount;
+  }
+
+  // Same view as the app's default camera (square aspect)
+  private static defaultCamera() {
+    const camera = new THREE.PerspectiveCamera(CAMERA_CONFIG.fov, 1, 0.1, 1000);
+    camera.position.set(...CAMERA_CONFIG.position);
+    camera.updateMatrixWorld();
+    return camera;
+  }
+}
@@ -0,0 +1,88 @@
+// Pairs particles with new targets by proximity, so a morph reads as the shape deforming
+// rather than every particle crossing the volume to an arbitrary index.
+
+const LEAF_SIZE = 8; // Ranges this small are paired by order along one axis
+
+// Reorders idx[lo, hi) so the k-th smallest key (by one coordinate) sits at k,
+// smaller ones before it and larger ones after (Hoare partition, middle pivot)
+const select = (idx: Uint32Array, points: Float32Array, axis: number, lo: number, hi: number, k: number) => {
+  let left = lo, right = hi - 1;
+  while (left < right) {
+    const pivot = points[idx[(left + right) >> 1] * 3 + axis];
+    let i = left, j = right;
+    while (i <= j) {
+      while (points[idx[i] * 3 + axis] < pivot) i++;
+      while (points[idx[j] * 3 + axis] > pivot) j--;
+      if (i <= j) {
+        const t = idx[i]; idx[i] = idx[j]; idx[j] = t;
+        i++; j--;
+      }
+    }
+    if (k <= j) right = j;
+    else if (k >= i) left = i;
+    else return;
+  }
+};
+
+const longestAxis = (idx: Uint32Array, points: Float32Array, lo: number, hi: number) => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let n = lo; n < hi; n++) {
+    const o = idx[n] * 3;
+    for (let a = 0; a < 3; a++) {
+      const v = points[o + a];
+      if (v < min[a]) min[a] = v;
+      if (v > max[a]) max[a] = v;
+    }
+  }
+  const extent = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+  return extent[0] >= extent[1] && extent[0] >= extent[2] ? 0 : extent[1] >= extent[2] ? 1 : 2;
+};
+
+/**
+ * Recursive median bisection: both point sets are split at the same rank along the
+ * particles' longest axis, and each half is matched with its counterpart. Every particle
+ * ends up paired with a target in the matching region of the new shape. O(n log n).
+ *
+ * Returns `order`, where particle i should take target order[i].
+ */
+export const assignTargets = (current: Float32Array, targets: Float32Array): Uint32Array => {
+  const count = Math.min(current.length, targets.length) / 3;
+  const src = new Uint32Array(count);
+  const dst = new Uint32Array(count);
+  for (let i = 0; i < count; i++) src[i] = dst[i] = i;
+
+  const stack: number[] = [0, count];
+  while (stack.length > 0) {
+    const hi = stack.pop()!;
+    const lo = stack.pop()!;
+    const axis = longestAxis(src, current, lo, hi);
+
+    if (hi - lo <= LEAF_SIZE) {
+      // Small enough: pair by order along the axis
+      for (let k = lo; k < hi - 1; k++) {
+        select(src, current, axis, k, hi, k);
+        select(dst, targets, axis, k, hi, k);
+      }
+      continue;
+    }
+
+    const mid = (lo + hi) >> 1;
+    select(src, current, axis, lo, hi, mid);
+    select(dst, targets, axis, lo, hi, mid);
+    stack.push(lo, mid, mid, hi);
+  }
+
+  const order = new Uint32Array(count);
+  for (let n = 0; n < count; n++) order[src[n]] = dst[n];
+  return order;
+};
+
+// Applies an assignment to per-target data (stride 3 for xyz or rgb)
+export const reorder = (data: Float32Array, order: Uint32Array, stride = 3): Float32Array => {
+  const out = new Float32Array(data.length);
+  for (let i = 0; i < order.length; i++) {
+    for (let c = 0; c < stride; c++) out[i * stride + c] = data[order[i] * stride + c];
+  }
+  return out;
+};
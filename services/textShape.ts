@@ -0,0 +1,78 @@
+import { TextSettings } from '../types';
+import { TEXT_FONTS, DEFAULT_TEXT_SETTINGS } from '../constants';
+import { readPixels, samplePixels } from './pixelSampling';
+import { Random } from './random';
+
+const FONT_SIZE = 100; // Layout units; the canvas is scaled from these
+const LINE_HEIGHT = 1.2;
+const PADDING = FONT_SIZE * 0.1;
+const TARGET_ASPECT = 2.5; // Width / height that automatic wrapping aims for
+
+const fontSpec = (font: string) => `bold ${FONT_SIZE}px ${TEXT_FONTS[font] ?? TEXT_FONTS[DEFAULT_TEXT_SETTINGS.font]}`;
+
+// Greedy word wrap to a width that keeps the block roughly TARGET_ASPECT wide.
+// Words wider than a line (or scripts written without spaces) break between characters.
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string): string[] => {
+  const measure = (s: string) => ctx.measureText(s).width;
+  const paragraphs = text.split('\n');
+  const singleLineWidth = measure(paragraphs.join(' '));
+  const lineCount = Math.max(1, Math.round(Math.sqrt(singleLineWidth / (FONT_SIZE * LINE_HEIGHT * TARGET_ASPECT))));
+  const maxWidth = singleLineWidth / lineCount;
+
+  const lines: string[] = [];
+  for (const paragraph of paragraphs) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const pieces = measure(word) > maxWidth ? Array.from(word) : [word];
+      pieces.forEach((piece, k) => {
+        const candidate = line ? line + (k === 0 ? ' ' : '') + piece : piece;
+        if (line && measure(candidate) > maxWidth) {
+          lines.push(line);
+          line = piece;
+        } else {
+          line = candidate;
+        }
+      });
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+/**
+ * Rasterises a string and samples particles over its glyphs.
+ * The canvas resolution grows with the particle count so edges stay crisp;
+ * depth > 0 extrudes the letters, otherwise they stay nearly flat.
+ * Needs a DOM canvas: without one (e.g. Node) every particle sits at the origin.
+ */
+export const generateTextTargets = (text: string, count: number, radius: number, { font, depth }: TextSettings, random: Random = Math.random) => {
+  if (typeof document === 'undefined' || !text.trim()) return new Float32Array(count * 3);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return new Float32Array(count * 3);
+
+  ctx.font = fontSpec(font);
+  const lines = wrapLines(ctx, text.trim());
+  const width = Math.max(...lines.map(line => ctx.measureText(line).width), FONT_SIZE * 0.5) + PADDING * 2;
+  const height = lines.length * FONT_SIZE * LINE_HEIGHT + PADDING * 2;
+
+  // Roughly two raster pixels per sqrt(particle) along the longest side
+  const resolution = Math.min(1024, Math.max(128, Math.round(Math.sqrt(count) * 2)));
+  const scale = resolution / Math.max(width, height);
+  canvas.width = Math.ceil(width * scale);
+  canvas.height = Math.ceil(height * scale);
+
+  // Resizing resets the context state
+  ctx.scale(scale, scale);
+  ctx.font = fontSpec(font);
+  ctx.fillStyle = 'white';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, PADDING + (i + 0.5) * FONT_SIZE * LINE_HEIGHT));
+
+  const { positions } = samplePixels(readPixels(ctx, canvas.width, canvas.height), count, radius, { mode: 'ALPHA', relief: 0 }, random);
+  if (depth > 0) {
+    for (let i = 2; i < positions.length; i += 3) positions[i] = (random() - 0.5) * depth * radius;
+  }
+  return positions;
+};
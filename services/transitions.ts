@@ -0,0 +1,150 @@
+import { Easing, TransitionStyle } from '../types';
+import { Random } from './random';
+
+// A transition as the physics kernel runs it (duration already in fixed steps)
+export interface TransitionSpec {
+  style: TransitionStyle;
+  easing: Easing;
+  steps: number;
+}
+
+const CASCADE_WINDOW = 0.4; // Share of the duration each particle spends moving in a cascade
+const SWIRL_PINCH = 0.5; // How far the vortex pulls particles toward its axis midway
+
+const ease = (easing: Easing, t: number) => {
+  switch (easing) {
+    case 'LINEAR': return t;
+    case 'EASE_IN': return t * t * t;
+    case 'EASE_OUT': return 1 - (1 - t) ** 3;
+    case 'EASE_IN_OUT': return t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2;
+  }
+};
+
+const clamp01 = (t: number) => Math.min(1, Math.max(0, t));
+
+/**
+ * Moves every particle's target from where the particle was when the shape changed
+ * to its new target along the style's path. The kernel's attraction then chases the
+ * moving target, so the choreography keeps the usual springy feel.
+ */
+export class ShapeTransition {
+  private readonly spec: TransitionSpec;
+  private readonly from: Float32Array;
+  private readonly to: Float32Array;
+  private readonly scatter: Float32Array; // Random point in the unit ball per particle
+  private readonly delays: Float32Array | null; // Cascade start per particle, 0 - (1 - CASCADE_WINDOW)
+  private readonly out: Float32Array;
+  private readonly radius: number; // Bounding radius of the new formation
+  private elapsed = 0;
+
+  constructor(spec: TransitionSpec, positions: Float32Array, targets: Float32Array, random: Random) {
+    const count = targets.length / 3;
+    this.spec = spec;
+    this.from = positions.slice();
+    this.to = targets;
+    this.out = new Float32Array(targets.length);
+
+    this.scatter = new Float32Array(targets.length);
+    let radiusSq = 0;
+    for (let i = 0; i < count; i++) {
+      const r = Math.cbrt(random());
+      const theta = random() * Math.PI * 2;
+      const phi = Math.acos(2 * random() - 1);
+      this.scatter[i * 3] = r * Math.sin(phi) * Math.cos(theta);
+      this.scatter[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
+      this.scatter[i * 3 + 2] = r * Math.cos(phi);
+      radiusSq = Math.max(radiusSq, targets[i * 3] ** 2 + targets[i * 3 + 1] ** 2 + targets[i * 3 + 2] ** 2);
+    }
+    this.radius = Math.max(Math.sqrt(radiusSq), 1);
+
+    this.delays = null;
+    if (spec.style === 'CASCADE_INDEX' || spec.style === 'CASCADE_HEIGHT') {
+      const delays = new Float32Array(count);
+      let minY = Infinity, maxY = -Infinity;
+      for (let i = 0; i < count; i++) {
+        minY = Math.min(minY, targets[i * 3 + 1]);
+        maxY = Math.max(maxY, targets[i * 3 + 1]);
+      }
+      const rangeY = Math.max(maxY - minY, 1e-6);
+      for (let i = 0; i < count; i++) {
+        // By index in order, by height from the top down
+        const order = spec.style === 'CASCADE_INDEX' ? i / count : (maxY - targets[i * 3 + 1]) / rangeY;
+        delays[i] = order * (1 - CASCADE_WINDOW);
+      }
+      this.delays = delays;
+    }
+  }
+
+  // Advances one step. Returns this step's targets, or null once the transition is over.
+  public next(): Float32Array | null {
+    if (this.elapsed >= this.spec.steps) return null;
+    this.elapsed++;
+    const t = this.elapsed / this.spec.steps;
+    const { style, easing } = this.spec;
+    const { from, to, scatter, delays, out, radius } = this;
+    const p = ease(easing, t);
+
+    for (let i = 0; i < to.length / 3; i++) {
+      const i3 = i * 3;
+      const ax = from[i3], ay = from[i3 + 1], az = from[i3 + 2];
+      const bx = to[i3], by = to[i3 + 1], bz = to[i3 + 2];
+      const sx = scatter[i3], sy = scatter[i3 + 1], sz = scatter[i3 + 2];
+
+      switch (style) {
+        case 'EXPLODE': {
+          // Burst outward for the first 40%, then reform
+          const ex = ax * 1.8 + sx * radius * 0.5;
+          const ey = ay * 1.8 + sy * radius * 0.5;
+          const ez = az * 1.8 + sz * radius * 0.5;
+          if (p < 0.4) lerpInto(out, i3, ax, ay, az, ex, ey, ez, p / 0.4);
+          else lerpInto(out, i3, ex, ey, ez, bx, by, bz, (p - 0.4) / 0.6);
+          break;
+        }
+        case 'DISSOLVE': {
+          // Out to a BIG_BANG-like cloud, then into the new shape
+          const cx = sx * radius * 2, cy = sy * radius * 2, cz = sz * radius * 2;
+          if (p < 0.5) lerpInto(out, i3, ax, ay, az, cx, cy, cz, p / 0.5);
+          else lerpInto(out, i3, cx, cy, cz, bx, by, bz, (p - 0.5) / 0.5);
+          break;
+        }
+        case 'SWIRL': {
+          // One turn around the vertical axis, pinching in midway like a vortex
+          lerpInto(out, i3, ax, ay, az, bx, by, bz, p);
+          const angle = p * Math.PI * 2;
+          const pinch = 1 - Math.sin(p * Math.PI) * SWIRL_PINCH;
+          const cos = Math.cos(angle), sin = Math.sin(angle);
+          const x = out[i3], z = out[i3 + 2];
+          out[i3] = (x * cos - z * sin) * pinch;
+          out[i3 + 2] = (x * sin + z * cos) * pinch;
+          break;
+        }
+        case 'CASCADE_INDEX':
+        case 'CASCADE_HEIGHT': {
+          const local = ease(easing, clamp01((t - delays![i]) / CASCADE_WINDOW));
+          lerpInto(out, i3, ax, ay, az, bx, by, bz, local);
+          break;
+        }
+        case 'CURVE': {
+          // Quadratic Bezier through a control point bowed out from the midpoint
+          const cx = (ax + bx) * 0.75 + sx * radius * 0.3;
+          const cy = (ay + by) * 0.75 + sy * radius * 0.3 + radius * 0.3;
+          const cz = (az + bz) * 0.75 + sz * radius * 0.3;
+          const u = 1 - p;
+          out[i3] = u * u * ax + 2 * u * p * cx + p * p * bx;
+          out[i3 + 1] = u * u * ay + 2 * u * p * cy + p * p * by;
+          out[i3 + 2] = u * u * az + 2 * u * p * cz + p * p * bz;
+          break;
+        }
+        default:
+          lerpInto(out, i3, ax, ay, az, bx, by, bz, p);
+      }
+    }
+    return out;
+  }
+}
+
+const lerpInto = (out: Float32Array, i3: number, ax: number, ay: number, az: number, bx: number, by: number, bz: number, t: number) => {
+  out[i3] = ax + (bx - ax) * t;
+  out[i3 + 1] = ay + (by - ay) * t;
+  out[i3 + 2] = az + (bz - az) * t;
+};
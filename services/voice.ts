@@ -1,5 +1,6 @@
 import { COLOR_PALETTES } from '../constants';
 import { ParticleShape, VoiceCommandType } from '../types';
+import { listShapes } from './shapeRegistry';
 
 type CommandCallback = (type: VoiceCommandType, value: string) => void;
 
@@ -10,6 +11,8 @@ const NUMBER_WORD_MAP: {[key: string]: number} = {
 
 // Common prefixes to identify intent
 const MODE_PREFIXES = "LETTER|CHAR|CHARACTER|TEXT|ALPHABET|TYPE|WRITE|SHOW|DISPLAY|NUMBER|NUM|DIGIT|COUNT";
+// "WRITE HELLO WORLD" sets the whole TEXT string
+const TEXT_PREFIXES = "WRITE|SPELL|TYPE";
 // Colors to act as prefixes (e.g., "Red A")
 const COLOR_PREFIXES = "RED|BLUE|GREEN|CYAN|MAGENTA|YELLOW|WHITE|ORANGE|PURPLE|GOLD|PINK|VIOLET|BLACK";
 
@@ -112,18 +115,30 @@ export class VoiceService {
   }
 
   private processCommand(text: string) {
-    // 1. Check for RESET command
+    // 1. Full text ("WRITE HELLO WORLD"). Checked first so the words themselves
+    // ("WRITE RED ALERT", "WRITE SAVE THE DATE") don't trigger other commands.
+    // A single letter or number word ("WRITE A", "TYPE SEVEN") falls through to
+    // the letter/number commands below.
+    const textMatch = text.match(new RegExp(`\\b(${TEXT_PREFIXES})\\s+(.+)$`));
+    const written = textMatch?.[2].trim() ?? '';
+    if (written.length > 1 && NUMBER_WORD_MAP[written] === undefined) {
+        console.log(`Matched Text: ${written}`);
+        this.onCommandMatch('SET_TEXT', written);
+        return;
+    }
+
+    // 2. Check for RESET command
     if (text.includes("RESET") || text.includes("CLEAR") || text.includes("DEFAULT")) {
         this.onCommandMatch('RESET', '');
         return;
     }
 
-    // 2. Check for Snapshot
+    // 3. Check for Snapshot
     if (text.includes("SAVE") || text.includes("SNAPSHOT") || text.includes("CAPTURE") || text.includes("DOWNLOAD") || text.includes("PICTURE")) {
         this.onCommandMatch('SNAPSHOT', '');
     }
 
-    // 3. Check Colors (Processing this earlier allows "Blue 6" to register color first)
+    // 4. Check Colors (Processing this earlier allows "Blue 6" to register color first)
     let colorFound = false;
     for (const [name, hex] of Object.entries(COLOR_PALETTES)) {
         if (text.includes(name)) {
@@ -144,7 +159,7 @@ export class VoiceService {
         else if (text.includes("BLACK")) this.onCommandMatch('COLOR', '#333333');
     }
 
-    // 4. Check specific Letter/Number commands
+    // 5. Check specific Letter/Number commands
     // Regex Logic: Look for (PREFIX OR COLOR) followed by (VALUE)
     // e.g. "LETTER A", "RED A", "BLUE 6"
     
@@ -181,25 +196,17 @@ export class VoiceService {
         }
     }
 
-    // 5. Check Shapes
-    for (const shape of Object.values(ParticleShape)) {
-        if (text.includes(shape) || (shape === 'BIG_BANG' && text.includes("BIG BANG"))) {
-            // Avoid conflict: If I said "LETTER A", it contains "TEXT" (ParticleShape.TEXT) if using enum key TEXT.
-            // But we match enum values here. 'TEXT' matches 'TEXT'.
-            // Logic: If we matched a specific letter/number command, we probably don't want to generic shape switch 
-            // UNLESS the user explicitly said the shape name in a separate context.
-            // However, "TEXT" is both a shape and a prefix.
-            // If I say "RED A", letterMatch is true. shape 'TEXT' is not in string "RED A".
-            // If I say "TEXT A", letterMatch is true. shape 'TEXT' is in string.
-            
-            // Priority: If we found a Letter/Number match, we implicitly switch mode in App.tsx handlers.
-            // But here we might double fire SHAPE=TEXT. That is benign as long as App handles it.
-            
-            // To be safe, if we matched a letter/number value, we skip generic shape matching for TEXT/NUMBER types
-            if (shape === ParticleShape.TEXT && letterMatch) continue;
-            if (shape === ParticleShape.NUMBER && numberMatch) continue;
+    // 6. Check Shapes (everything in the shape registry, by name or alias)
+    for (const { name, voiceAliases, hidden } of listShapes()) {
+        if (hidden) continue;
+        const spoken = [name, name.replace(/_/g, ' '), ...voiceAliases];
+        if (spoken.some(phrase => text.includes(phrase))) {
+            // "TEXT" and "NUMBER" double as prefixes ("TEXT A", "NUMBER 5").
+            // If we matched a letter/number value, App already switches mode via SET_CHAR/SET_NUM.
+            if (name === ParticleShape.TEXT && letterMatch) continue;
+            if (name === ParticleShape.NUMBER && numberMatch) continue;
             
-            this.onCommandMatch('SHAPE', shape);
+            this.onCommandMatch('SHAPE', name);
             break; 
         }
     }
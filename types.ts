@@ -1,5 +1,7 @@
 import React from 'react';
 
+// Names of the built-in formations. Formations are looked up by name in the shape
+// registry (services/shapeRegistry.ts), which modules can extend with their own.
 export enum ParticleShape {
   SPHERE = 'SPHERE',
   CUBE = 'CUBE',
@@ -10,15 +12,296 @@ export enum ParticleShape {
   SATURN = 'SATURN',
   PYRAMID = 'PYRAMID',
   TEXT = 'TEXT',
-  NUMBER = 'NUMBER'
+  NUMBER = 'NUMBER',
+  DRAWING = 'DRAWING' // The selected air drawing
+}
+
+// --- Formations ---
+
+// Inputs some generators need besides count and radius
+export interface ShapeParams {
+  text: TextSettings; // For TEXT (NUMBER uses its font and depth)
+  numIndex: number; // 0-9, for NUMBER
+  drawing: Drawing | null; // Selected air drawing, for DRAWING
+  imageSampling: ImageSampling; // For imported images
+  random: () => number; // Use instead of Math.random so seeded runs are reproducible
+}
+
+export interface TextSettings {
+  text: string; // Any string; wraps automatically, newlines force a break
+  font: string; // Key of TEXT_FONTS
+  depth: number; // Extrusion, as a fraction of the radius (0 = flat)
+}
+
+// How an imported image becomes particles
+export type ImageSampleMode = 'BRIGHTNESS' | 'ALPHA';
+
+export interface ImageSampling {
+  mode: ImageSampleMode; // Bright pixels or opaque pixels attract particles
+  relief: number; // Depth from luminance, as a fraction of the radius (0 = flat)
+}
+
+// Targets plus a base colour per particle (rgb 0-1, same length as positions)
+export interface ShapeTargets {
+  positions: Float32Array;
+  colors: Float32Array | null;
+}
+
+// Returns count xyz target positions (length count * 3), optionally with source colours
+export type ShapeGenerator = (count: number, radius: number, params: ShapeParams) => Float32Array | ShapeTargets;
+
+export interface ShapeDefinition {
+  name: string; // Unique id (stored upper case), also the value of SHAPE commands
+  label: string; // Shown in the FORMATION panel
+  voiceAliases: string[]; // Extra spoken phrases (upper case); the name itself always matches
+  generator: ShapeGenerator;
+  hidden?: boolean; // Selected by other means, not listed in pickers or matched by voice
+}
+
+// --- Transitions ---
+
+// DIRECT swaps targets instantly and lets the physics fly particles straight there
+export type TransitionStyle = 'DIRECT' | 'EXPLODE' | 'SWIRL' | 'CASCADE_INDEX' | 'CASCADE_HEIGHT' | 'DISSOLVE' | 'CURVE';
+
+export type Easing = 'LINEAR' | 'EASE_IN' | 'EASE_OUT' | 'EASE_IN_OUT';
+
+export interface TransitionSettings {
+  style: TransitionStyle;
+  duration: number; // Seconds
+  easing: Easing;
+}
+
+// --- Force Fields ---
+
+export type ForceFieldKind = 'CURL_NOISE' | 'VORTEX' | 'GRAVITY_WELL' | 'WIND' | 'DRAG';
+export type AudioBand = 'NONE' | 'BASS' | 'MID' | 'TREBLE';
+
+// One stackable field in the physics step. Positions and directions are in particle space.
+export interface ForceField {
+  id: string;
+  kind: ForceFieldKind;
+  enabled: boolean;
+  strength: number; // Acceleration per step (DRAG: share of velocity lost per step; negative wells repel)
+  position: [number, number, number]; // Well centre, point on the vortex axis
+  direction: [number, number, number]; // Vortex axis, wind direction
+  radius: number; // Reach of wells and vortices (0 = unlimited), feature size of CURL_NOISE
+  speed: number; // Animation: noise flow, well orbit and axis precession (rad/s), wind gusts (Hz)
+  audioBand: AudioBand; // Band that boosts the strength
+  audioGain: number; // Strength is scaled by 1 + level * gain
+}
+
+// --- Colour ---
+
+// SOLID: the group colour. GRADIENT: stops along an axis or the radius. RAINBOW: hue by index.
+// DUAL_TONE: the group colour interleaved with a second one. SPECTRUM: each particle shows the
+// level of the audio band at its place along the axis, through the gradient.
+export type ColorMode = 'SOLID' | 'GRADIENT' | 'RAINBOW' | 'DUAL_TONE' | 'SPECTRUM';
+export type GradientAxis = 'X' | 'Y' | 'Z' | 'RADIUS';
+
+export interface GradientStop {
+  position: number; // 0 - 1
+  color: string;
+}
+
+export interface ColorSettings {
+  mode: ColorMode;
+  stops: GradientStop[]; // GRADIENT and SPECTRUM (quiet -> loud)
+  axis: GradientAxis; // GRADIENT and SPECTRUM (low -> high frequencies)
+  secondary: string; // DUAL_TONE
+}
+
+// --- Trails ---
+
+export interface TrailSettings {
+  enabled: boolean;
+  length: number; // Seconds until a trail has faded out
+  fade: number; // Fade curve: 0 = linear, 1 = exponential (bright head, long dim tail)
+  audioGain: number; // Bass stretches trails to length * (1 + bass * gain)
+}
+
+// --- Quality ---
+
+export interface QualitySettings {
+  auto: boolean; // Scale particle counts and pixel ratio to hold targetFps
+  targetFps: number;
+}
+
+// One rung of the auto-quality ladder
+export interface QualityLevel {
+  dpr: number; // Device pixel ratio the canvas renders at
+  countScale: number; // Multiplies every group's particle count
+}
+
+// --- Particle Groups ---
+
+export interface PhysicsSettings {
+  attraction: number; // Share of the distance to the target added to velocity per step
+  damping: number; // Share of velocity kept per step
+  noise: number; // Random jitter per step (treble adds to it)
+}
+
+// Where a group sits in the scene
+export interface GroupLayout {
+  position: [number, number, number]; // Offset from the scene centre
+  scale: number;
+  orbit: number; // Revolves the offset around the vertical axis (rad/s)
+}
+
+// One independently simulated cloud in the scene, e.g. a word orbiting a sphere
+export interface ParticleGroup {
+  id: string;
+  name: string;
+  seed: number; // Seeds its formations and physics noise
+  shape: string; // Registered shape name
+  color: string;
+  coloring: ColorSettings;
+  count: number;
+  text: TextSettings;
+  numIndex: number; // 0-9
+  drawingId: string | null; // Air drawing shown by the DRAWING formation
+  layout: GroupLayout;
+  physics: PhysicsSettings;
+  aura: boolean; // Surround the group with its own glow
+}
+
+export type Handedness = 'Left' | 'Right';
+
+export enum HandPose {
+  NONE = 'NONE',
+  OPEN_PALM = 'OPEN_PALM',
+  FIST = 'FIST',
+  PINCH = 'PINCH',
+  POINT = 'POINT',
+  PEACE = 'PEACE',
+  THUMBS_UP = 'THUMBS_UP',
+  OK = 'OK'
+}
+
+// Raw MediaPipe landmark (x, y normalized 0-1 in image space, z relative to wrist)
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// State of a single tracked hand
+export interface HandState {
+  x: number; // Normalized -1 to 1
+  y: number; // Normalized -1 to 1
+  z: number; // Depth -1 (far from camera) to 1 (close to camera)
+  isClenched: boolean;
+  handSpread: number; // 0 to 1
+  handedness: Handedness; // The user's actual hand (already un-mirrored)
+  score: number; // Handedness classification confidence 0 - 1
+  pose: HandPose; // Debounced static pose
+  poseConfidence: number; // 0 - 1
+  fingertips: { x: number; y: number }[]; // Thumb, index, middle, ring, pinky tips, same space as x/y
 }
 
 export interface HandData {
   x: number; // Normalized -1 to 1
   y: number; // Normalized -1 to 1
+  z: number; // Depth -1 (far from camera) to 1 (close to camera), from apparent palm size
   isDetected: boolean;
   isClenched: boolean; // True if fist is closed
   handSpread: number; // 0 to 1 (0 = Fist, 1 = Wide Open)
+  pose: HandPose; // Debounced static pose of the primary hand
+  poseConfidence: number; // 0 - 1
+  hands: HandState[]; // All tracked hands, primary hand first (max 2)
+}
+
+// --- Signal Filtering ---
+
+// One Euro filter parameters (see Casiez et al. 2012)
+export interface OneEuroParams {
+  minCutoff: number; // Hz. Lower = less jitter when still
+  beta: number; // Speed coefficient. Higher = less lag when moving fast
+  dCutoff: number; // Hz. Cutoff for the derivative estimate
+}
+
+export interface SmoothingConfig {
+  enabled: boolean;
+  x: OneEuroParams;
+  y: OneEuroParams;
+  z: OneEuroParams;
+  handSpread: OneEuroParams;
+  clenchHysteresis: number; // Dead band around the clench threshold (normalized image units)
+}
+
+// --- Calibration ---
+
+// Per-user thresholds, derived by the calibration wizard
+export interface HandCalibration {
+  clenchDistance: number; // Raised fingertips within this of the wrist = fist (normalized image units)
+  raiseOffset: number; // How far above the wrist a fingertip must be to count as raised
+  spreadMin: number; // Mean fingertip distance in a fist (palm sizes)
+  spreadMax: number; // Mean fingertip distance with an open palm (palm sizes)
+  region: { minX: number; maxX: number; minY: number; maxY: number }; // Reachable palm area, image space 0-1
+}
+
+// --- Hand Tracking Providers ---
+
+export type HandSourceType = 'CAMERA' | 'REPLAY' | 'MOUSE';
+
+// Anything that can feed HandData into the app (camera, recorded session, simulator)
+export interface HandTrackingProvider {
+  readonly source: HandSourceType;
+  initialize(): Promise<void>;
+  stop(): void;
+  setSmoothing(smoothing: SmoothingConfig): void;
+  setCalibration(calibration: HandCalibration): void;
+  // Raw landmark frames, only for sources that have them (camera, replay)
+  setFrameListener?(listener: ((frame: HandFrame) => void) | null): void;
+}
+
+// --- Camera ---
+
+export interface CameraSettings {
+  deviceId: string | null; // null = browser default (front camera)
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+// OFF: not running, STARTING: opening the stream, LIVE: frames flowing,
+// MUTED: track stopped delivering frames, RECONNECTING: reopening after a lost track,
+// DENIED: permission refused, FAILED: no usable camera
+export type CameraStatus = 'OFF' | 'STARTING' | 'LIVE' | 'MUTED' | 'RECONNECTING' | 'DENIED' | 'FAILED';
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+// --- Recording Types ---
+
+// One raw tracker frame, as delivered by MediaPipe
+export interface HandFrame {
+  t: number; // ms (relative to recording start when recorded)
+  landmarks: Landmark[][]; // 21 landmarks per hand
+  handedness: { label: string; score: number }[]; // Raw MediaPipe labels (mirrored)
+}
+
+export interface HandRecording {
+  version: 1;
+  createdAt: string; // ISO timestamp
+  frames: HandFrame[];
+}
+
+// --- Air Drawing ---
+
+export interface DrawingPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// A saved air drawing. Points are centred and fitted into -1..1 (screen proportions kept)
+export interface Drawing {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  strokes: DrawingPoint[][];
 }
 
 export interface ParticleConfig {
@@ -41,7 +324,39 @@ export interface VoiceCommandStatus {
   confidence: number;
 }
 
-export type VoiceCommandType = 'SHAPE' | 'COLOR' | 'RESET' | 'SNAPSHOT' | 'SET_CHAR' | 'SET_NUM';
+export type VoiceCommandType = 'SHAPE' | 'COLOR' | 'RESET' | 'SNAPSHOT' | 'SET_CHAR' | 'SET_NUM' | 'SET_TEXT';
+
+// Everything voice can do, plus commands only reachable through gestures
+export type AppCommandType = VoiceCommandType | 'NEXT_CHAR' | 'PREV_CHAR';
+
+// --- Gesture Bindings ---
+
+export type GestureTrigger =
+  | { kind: 'POSE'; pose: HandPose } // Fires once when the pose is entered
+  | { kind: 'POSE_HOLD'; pose: HandPose; durationMs: number } // Fires once after holding the pose
+  | { kind: 'CLENCH'; edge: 'START' | 'END' }; // Fires on fist close / open
+
+export interface GestureBinding {
+  id: string;
+  trigger: GestureTrigger;
+  command: AppCommandType;
+  value: string; // Command payload (shape name, colour hex, ...)
+}
+
+export type HandSignal = 'X' | 'Y' | 'Z' | 'SPREAD';
+export type ContinuousParam = 'ROTATE_X' | 'ROTATE_Y' | 'ROLL' | 'SCALE' | 'DOLLY';
+
+export interface ContinuousBinding {
+  id: string;
+  signal: HandSignal;
+  param: ContinuousParam;
+  gain: number; // Negative values invert
+}
+
+export interface BindingConfig {
+  triggers: GestureBinding[];
+  continuous: ContinuousBinding[];
+}
 
 // --- Global Type Augmentation ---
 
@@ -49,6 +364,6 @@ declare global {
   interface Window {
     webkitSpeechRecognition: any;
     SpeechRecognition: any;
-    Hands: any;
+    Hands: any; // Installed by the bundled MediaPipe hands.js script
   }
 }
@@ -14,5 +14,7 @@ export default defineConfig({
     outDir: 'dist',
     sourcemap: false,
     chunkSizeWarningLimit: 1600,
+    // Keep MediaPipe assets as real files: its loaders fetch them by URL
+    assetsInlineLimit: (filePath) => (filePath.includes('@mediapipe') ? false : undefined),
   },
 });
\ No newline at end of file